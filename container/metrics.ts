@@ -0,0 +1,122 @@
+// Minimal Prometheus registry for the container's GET /metrics (text exposition format 0.0.4).
+// Metrics are process-local and reset when the container restarts.
+
+type Labels = Record<string, string>;
+
+interface Metric {
+  render(): string[];
+}
+
+const metrics: Metric[] = [];
+
+const escapeLabel = (value: string) => value.replace(/\\/g, "\\\\").replace(/\n/g, "\\n").replace(/"/g, '\\"');
+
+const labelKey = (labels: Labels) =>
+  Object.keys(labels).sort().map((key) => `${key}="${escapeLabel(labels[key])}"`).join(",");
+
+const withLabels = (name: string, key: string) => (key ? `${name}{${key}}` : name);
+
+const header = (name: string, help: string, type: string) => [`# HELP ${name} ${help}`, `# TYPE ${name} ${type}`];
+
+export class Counter {
+  private readonly name: string;
+  private readonly help: string;
+  private readonly values = new Map<string, number>();
+
+  constructor(name: string, help: string) {
+    this.name = name;
+    this.help = help;
+    metrics.push(this);
+  }
+
+  inc(labels: Labels = {}, amount = 1) {
+    const key = labelKey(labels);
+    this.values.set(key, (this.values.get(key) ?? 0) + amount);
+  }
+
+  render() {
+    const lines = header(this.name, this.help, "counter");
+    for (const [key, value] of this.values) {
+      lines.push(`${withLabels(this.name, key)} ${value}`);
+    }
+    return lines;
+  }
+}
+
+// Gauges are read when scraped, so they always reflect the pool's current state
+export class Gauge {
+  private readonly name: string;
+  private readonly help: string;
+  private readonly collect: () => { labels?: Labels; value: number }[];
+
+  constructor(name: string, help: string, collect: () => { labels?: Labels; value: number }[]) {
+    this.name = name;
+    this.help = help;
+    this.collect = collect;
+    metrics.push(this);
+  }
+
+  render() {
+    const lines = header(this.name, this.help, "gauge");
+    for (const { labels = {}, value } of this.collect()) {
+      lines.push(`${withLabels(this.name, labelKey(labels))} ${value}`);
+    }
+    return lines;
+  }
+}
+
+interface HistogramSeries {
+  labels: Labels;
+  counts: number[];
+  sum: number;
+  count: number;
+}
+
+export class Histogram {
+  private readonly name: string;
+  private readonly help: string;
+  // Bucket upper bounds in seconds
+  private readonly buckets: number[];
+  private readonly series = new Map<string, HistogramSeries>();
+
+  constructor(name: string, help: string, buckets: number[]) {
+    this.name = name;
+    this.help = help;
+    this.buckets = buckets;
+    metrics.push(this);
+  }
+
+  observe(seconds: number, labels: Labels = {}) {
+    const key = labelKey(labels);
+    let series = this.series.get(key);
+    if (!series) {
+      series = { labels, counts: this.buckets.map(() => 0), sum: 0, count: 0 };
+      this.series.set(key, series);
+    }
+    this.buckets.forEach((bound, i) => {
+      if (seconds <= bound) series.counts[i]++;
+    });
+    series.sum += seconds;
+    series.count++;
+  }
+
+  render() {
+    const lines = header(this.name, this.help, "histogram");
+    for (const series of this.series.values()) {
+      const bucket = (le: string, value: number) =>
+        `${withLabels(`${this.name}_bucket`, labelKey({ ...series.labels, le }))} ${value}`;
+      this.buckets.forEach((bound, i) => lines.push(bucket(String(bound), series.counts[i])));
+      lines.push(bucket("+Inf", series.count));
+      const key = labelKey(series.labels);
+      lines.push(`${withLabels(`${this.name}_sum`, key)} ${series.sum}`);
+      lines.push(`${withLabels(`${this.name}_count`, key)} ${series.count}`);
+    }
+    return lines;
+  }
+}
+
+export const CONTENT_TYPE = "text/plain; version=0.0.4; charset=utf-8";
+
+export function renderMetrics(): string {
+  return metrics.flatMap((metric) => metric.render()).join("\n") + "\n";
+}
@@ -0,0 +1,148 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import type { Logger } from "../shared/log.js";
+import type { SessionConfig } from "../shared/protocol.js";
+import { Prewarmer, type PrewarmerOptions } from "./prewarm.js";
+import type { AgentSession, PooledSession } from "./sessions.js";
+
+// Stands in for the SDK: initializes (or fails to) as told, and records whether it was closed
+class FakeSession implements AgentSession {
+  closed = false;
+  constructor(private readonly init: () => Promise<void>) {}
+  send() {}
+  async *stream() {}
+  ready() {
+    return this.init();
+  }
+  async interrupt() {}
+  async mcpServerStatus() {
+    return [];
+  }
+  close() {
+    this.closed = true;
+  }
+}
+
+const silentLog: Logger = {
+  debug() {},
+  info() {},
+  warn() {},
+  error() {},
+  child: () => silentLog
+};
+
+const config: SessionConfig = {};
+
+let nextId = 0;
+const fakePooled = (init: () => Promise<void>): PooledSession => ({
+  session: new FakeSession(init),
+  sessionId: `prewarm-${++nextId}`,
+  fingerprint: "default",
+  createdAt: Date.now(),
+  lastUsed: Date.now(),
+  inUse: false,
+  bound: false
+});
+
+// The session is created, then the SDK fails while starting up, as with a bad API key or a crashed CLI
+const failingStartup = () => fakePooled(() => Promise.reject(new Error("Claude Code process exited with code 1")));
+
+const createPrewarmer = (overrides: Partial<PrewarmerOptions> = {}) =>
+  new Prewarmer({
+    createSession: async () => failingStartup(),
+    readyTimeout: 1000,
+    backoffBase: 1000,
+    backoffMax: 5000,
+    onReady() {},
+    onRetry() {},
+    log: silentLog,
+    ...overrides
+  });
+
+test("backs off exponentially while sessions fail to initialize", async (t) => {
+  const created: PooledSession[] = [];
+  const ready: PooledSession[] = [];
+  const prewarmer = createPrewarmer({
+    createSession: async () => {
+      const pooled = failingStartup();
+      created.push(pooled);
+      return pooled;
+    },
+    onReady: (pooled) => ready.push(pooled)
+  });
+  t.after(() => prewarmer.stop());
+
+  const delays: number[] = [];
+  for (let i = 0; i < 5; i++) {
+    const before = Date.now();
+    assert.equal(await prewarmer.start("default", config), false);
+    delays.push(Math.round((prewarmer.backoffUntil - before) / 1000) * 1000);
+    assert.ok(prewarmer.backingOff());
+  }
+
+  assert.equal(prewarmer.failures, 5);
+  assert.deepEqual(delays, [1000, 2000, 4000, 5000, 5000]);
+  assert.deepEqual(ready, []);
+  assert.equal(prewarmer.inFlight, 0);
+  // Sessions that never initialized are closed, not left running
+  assert.ok(created.every((pooled) => (pooled.session as FakeSession).closed));
+});
+
+test("counts a session that doesn't initialize in time as failed", async (t) => {
+  const pooled = fakePooled(() => new Promise(() => {}));
+  const notReady: unknown[] = [];
+  const prewarmer = createPrewarmer({
+    createSession: async () => pooled,
+    readyTimeout: 10,
+    onNotReady: (error) => notReady.push(error)
+  });
+  t.after(() => prewarmer.stop());
+
+  const pending = prewarmer.start("default", config);
+  assert.equal(prewarmer.pending("default"), 1);
+  assert.equal(await pending, false);
+  assert.equal(prewarmer.pending("default"), 0);
+  assert.equal(prewarmer.failures, 1);
+  assert.match(String(notReady[0]), /not ready after 10ms/);
+  assert.equal((pooled.session as FakeSession).closed, true);
+});
+
+test("counts a factory that fails or returns no session as failed", async (t) => {
+  const prewarmer = createPrewarmer({ createSession: async () => null });
+  t.after(() => prewarmer.stop());
+  assert.equal(await prewarmer.start("default", config), false);
+
+  const throwing = createPrewarmer({
+    createSession: () => Promise.reject(new Error("spawn failed"))
+  });
+  t.after(() => throwing.stop());
+  assert.equal(await throwing.start("default", config), false);
+
+  assert.equal(prewarmer.failures, 1);
+  assert.equal(throwing.failures, 1);
+});
+
+test("retries when the backoff is over and resets it once a session initializes", async (t) => {
+  let healthy = false;
+  const ready: PooledSession[] = [];
+  let retried!: () => void;
+  const retry = new Promise<void>((resolve) => (retried = resolve));
+  const prewarmer = createPrewarmer({
+    createSession: async () => (healthy ? fakePooled(async () => {}) : failingStartup()),
+    backoffBase: 5,
+    onReady: (pooled) => ready.push(pooled),
+    onRetry: () => retried()
+  });
+  t.after(() => prewarmer.stop());
+
+  assert.equal(await prewarmer.start("default", config), false);
+  assert.equal(prewarmer.failures, 1);
+  await retry;
+  assert.equal(prewarmer.backingOff(), false);
+
+  healthy = true;
+  assert.equal(await prewarmer.start("default", config), true);
+  assert.equal(prewarmer.failures, 0);
+  assert.equal(ready.length, 1);
+  assert.equal((ready[0].session as FakeSession).closed, false);
+});
@@ -0,0 +1,119 @@
+// Background pre-warming for the session pool. Counts the pre-warms in flight per config fingerprint
+// and backs off exponentially after consecutive failures. A session only counts as warm once the SDK
+// has initialized: the SDK reports startup errors asynchronously, so a factory that throws or returns
+// null, and a session that fails or doesn't become ready within readyTimeout, are all failures. The
+// SDK is only reached through the injected factory, so backoff can be driven with fake sessions.
+
+import type { Logger } from "../shared/log.js";
+import type { SessionConfig } from "../shared/protocol.js";
+import type { PooledSession } from "./sessions.js";
+
+export interface PrewarmerOptions {
+  // Creates a session for `config`; null on failure
+  createSession(config: SessionConfig): Promise<PooledSession | null>;
+  // How long a new session may take to initialize before the pre-warm counts as failed
+  readyTimeout: number;
+  // Backoff after the first failure, doubling per consecutive failure up to backoffMax
+  backoffBase: number;
+  backoffMax: number;
+  // Called with each session that initialized, after it stopped counting as in flight
+  onReady(pooled: PooledSession, fingerprint: string): void;
+  // Called when a backoff period is over, so the pool can be filled again
+  onRetry(): void;
+  // Called when a created session fails or times out while initializing; the factory reports its own errors
+  onNotReady?(error: unknown): void;
+  log: Logger;
+}
+
+export class Prewarmer {
+  // Consecutive failed pre-warms; pre-warming pauses until backoffUntil
+  failures = 0;
+  backoffUntil = 0;
+  private readonly options: PrewarmerOptions;
+  private readonly inFlightByConfig = new Map<string, number>();
+  private retryTimer?: NodeJS.Timeout;
+
+  constructor(options: PrewarmerOptions) {
+    this.options = options;
+  }
+
+  get inFlight() {
+    let total = 0;
+    for (const count of this.inFlightByConfig.values()) total += count;
+    return total;
+  }
+
+  pending(fingerprint: string) {
+    return this.inFlightByConfig.get(fingerprint) ?? 0;
+  }
+
+  backingOff(now = Date.now()) {
+    return now < this.backoffUntil;
+  }
+
+  // Pre-warm one session for `config`; resolves with whether it became ready
+  async start(fingerprint: string, config: SessionConfig): Promise<boolean> {
+    this.inFlightByConfig.set(fingerprint, this.pending(fingerprint) + 1);
+    let pooled: PooledSession;
+    try {
+      pooled = await this.warm(config);
+    } catch (error) {
+      this.settle(fingerprint);
+      this.fail(error);
+      return false;
+    }
+    this.settle(fingerprint);
+    this.failures = 0;
+    this.options.onReady(pooled, fingerprint);
+    return true;
+  }
+
+  stop() {
+    clearTimeout(this.retryTimer);
+    this.retryTimer = undefined;
+  }
+
+  private async warm(config: SessionConfig): Promise<PooledSession> {
+    const pooled = await this.options.createSession(config);
+    if (!pooled) throw new Error("Session could not be created");
+
+    let timer: NodeJS.Timeout | undefined;
+    try {
+      await Promise.race([
+        pooled.session.ready(),
+        new Promise<never>((_, reject) => {
+          timer = setTimeout(
+            () => reject(new Error(`Session not ready after ${this.options.readyTimeout}ms`)),
+            this.options.readyTimeout
+          );
+        })
+      ]);
+    } catch (error) {
+      this.options.onNotReady?.(error);
+      try {
+        pooled.session.close();
+      } catch (closeError) {
+        this.options.log.warn("Failed to close session", { sessionId: pooled.sessionId, error: closeError });
+      }
+      throw error;
+    } finally {
+      clearTimeout(timer);
+    }
+    return pooled;
+  }
+
+  private settle(fingerprint: string) {
+    const pending = this.pending(fingerprint) - 1;
+    if (pending > 0) this.inFlightByConfig.set(fingerprint, pending);
+    else this.inFlightByConfig.delete(fingerprint);
+  }
+
+  private fail(error: unknown) {
+    this.failures++;
+    const delay = Math.min(this.options.backoffMax, this.options.backoffBase * 2 ** (this.failures - 1));
+    this.backoffUntil = Date.now() + delay;
+    this.options.log.warn("Pre-warm failed, backing off", { failures: this.failures, backoffMs: delay, error });
+    clearTimeout(this.retryTimer);
+    this.retryTimer = setTimeout(() => this.options.onRetry(), delay);
+  }
+}
@@ -0,0 +1,74 @@
+// Per-turn output buffer. Every frame a turn sends gets the next sequence number and is kept (up to
+// a limit) so a client whose connection dropped can reconnect, send `resume` with the last `seq`
+// it received, and get the rest of the turn on the new connection.
+
+import type { WebSocket } from "ws";
+import { encodeFrame, type ServerFrame } from "../shared/protocol.js";
+
+export class TurnOutput {
+  readonly requestId: string;
+  // Account that sent the prompt; resumes from any other account are refused
+  readonly owner: string | null;
+  private ws: WebSocket | null;
+  private readonly maxFrames: number;
+  private readonly frames: { seq: number; data: string }[] = [];
+  private seq = 0;
+  private detachTimer?: NodeJS.Timeout;
+  // Set once the turn sent its last frame; the buffer is kept a little longer for late resumes
+  finishedAt: number | null = null;
+
+  constructor(requestId: string, owner: string | null, ws: WebSocket, maxFrames: number) {
+    this.requestId = requestId;
+    this.owner = owner;
+    this.ws = ws;
+    this.maxFrames = maxFrames;
+  }
+
+  get lastSeq() {
+    return this.seq;
+  }
+
+  isOwnedBy(accountId: string | undefined) {
+    return this.owner === (accountId ?? null);
+  }
+
+  // Whether `ws` is the connection currently receiving this turn
+  isAttachedTo(ws: WebSocket) {
+    return this.ws === ws;
+  }
+
+  send(frame: ServerFrame) {
+    const data = encodeFrame({ ...frame, turnId: this.requestId, seq: ++this.seq });
+    this.frames.push({ seq: this.seq, data });
+    if (this.frames.length > this.maxFrames) this.frames.shift();
+    const ws = this.ws;
+    if (ws && ws.readyState === ws.OPEN) ws.send(data);
+  }
+
+  finish() {
+    this.finishedAt = Date.now();
+    clearTimeout(this.detachTimer);
+  }
+
+  // The connection went away; `onExpired` runs unless a client resumes within `timeoutMs`
+  detach(timeoutMs: number, onExpired: () => void) {
+    this.ws = null;
+    if (this.finishedAt !== null) return;
+    clearTimeout(this.detachTimer);
+    this.detachTimer = setTimeout(onExpired, timeoutMs);
+  }
+
+  // Moves the turn to `ws` and replays the frames after `after`. Returns false, without attaching,
+  // when some of those frames have already been dropped from the buffer.
+  attach(ws: WebSocket, after: number): boolean {
+    const oldest = this.frames[0]?.seq ?? this.seq + 1;
+    if (after + 1 < oldest) return false;
+
+    clearTimeout(this.detachTimer);
+    this.ws = ws;
+    for (const frame of this.frames) {
+      if (frame.seq > after) ws.send(frame.data);
+    }
+    return true;
+  }
+}
@@ -1,181 +1,1050 @@
 const startTime = Date.now();
-console.log("[Startup] Starting server with session pooling...");
 
 import "dotenv/config";
-console.log(`[Startup] dotenv loaded (+${Date.now() - startTime}ms)`);
+import { configureLogging, createLogger, type Logger } from "../shared/log.js";
+import { type Span, Tracer } from "../shared/trace.js";
 
-import { unstable_v2_createSession } from "@anthropic-ai/claude-agent-sdk";
-import type { SDKSessionOptions, SDKSession } from "@anthropic-ai/claude-agent-sdk";
-console.log(`[Startup] Agent SDK imported (+${Date.now() - startTime}ms)`);
+// JSON lines with the Worker's requestId/accountId/sessionId; LOG_LEVEL and LOG_PROMPTS come from the Worker
+configureLogging(process.env.LOG_LEVEL, process.env.LOG_PROMPTS);
+const logger = createLogger({ component: "container" });
+const startupLog = logger.child({ component: "startup" });
+const poolLog = logger.child({ component: "session-pool" });
+const workspaceLog = logger.child({ component: "workspace" });
+const shutdownLog = logger.child({ component: "shutdown" });
+startupLog.info("Starting server with session pooling");
 
+// Turns continue the Worker's trace (prompt frame `traceparent`); off unless an OTLP endpoint is set
+const tracer = new Tracer({
+  serviceName: process.env.OTEL_SERVICE_NAME || "claude-agent-container",
+  endpoint: process.env.OTEL_EXPORTER_OTLP_ENDPOINT,
+  headers: process.env.OTEL_EXPORTER_OTLP_HEADERS
+});
+
+import { createSdkMcpServer, query, tool } from "@anthropic-ai/claude-agent-sdk";
+import type {
+  CanUseTool,
+  McpServerConfig,
+  Options,
+  PermissionResult,
+  SDKUserMessage
+} from "@anthropic-ai/claude-agent-sdk";
+
+import {
+  type ContainerDiscovery,
+  type ContainerStatus,
+  encodeFrame,
+  type ErrorFrame,
+  errorFrame,
+  type McpServerInfo,
+  type McpServerStatus,
+  parseClientFrame,
+  ProtocolError,
+  type SdkMessageData,
+  type ServerFrame,
+  type SessionConfig,
+  type SkillInfo,
+  type ToolInfo,
+  type TurnUsage,
+  type WorkspaceEntry,
+  type WorkspaceListing,
+} from "../shared/protocol.js";
 import http from "node:http";
-import { WebSocketServer } from "ws";
-import { readFileSync } from "node:fs";
-import { join } from "node:path";
-console.log(`[Startup] Core modules loaded (+${Date.now() - startTime}ms)`);
+import { WebSocketServer, type WebSocket } from "ws";
+import {
+  createReadStream,
+  existsSync,
+  lstatSync,
+  mkdirSync,
+  readFileSync,
+  readdirSync,
+  realpathSync,
+  symlinkSync,
+  writeFileSync
+} from "node:fs";
+import { homedir } from "node:os";
+import { basename, dirname, isAbsolute, join, relative, resolve, sep } from "node:path";
+import { fileURLToPath, pathToFileURL } from "node:url";
+import { z, type ZodRawShape } from "zod";
+import { ToolError, type ToolDefinition, type ToolSchema } from "./tool.js";
+import { CONTENT_TYPE as METRICS_CONTENT_TYPE, Counter, Gauge, Histogram, renderMetrics } from "./metrics.js";
+import { Prewarmer } from "./prewarm.js";
+import { TurnOutput } from "./replay.js";
+import {
+  type AgentSession,
+  type PooledSession,
+  SessionBusyError,
+  type SessionLease,
+  SessionManager,
+  type SessionSource
+} from "./sessions.js";
+startupLog.info("Modules loaded", { sinceStartMs: Date.now() - startTime });
 
 const PORT = 8081;
 
-// Session pool for pre-warmed sessions
-interface PooledSession {
-  session: SDKSession;
-  sessionId: string;
-  createdAt: number;
-  lastUsed: number;
-  inUse: boolean;
+function createAgentSession(options: Options): AgentSession {
+  const pending: SDKUserMessage[] = [];
+  const abortController = new AbortController();
+  let wake: (() => void) | null = null;
+  let closed = false;
+
+  // Input stream stays open for the session's lifetime; each send() enqueues one user turn
+  async function* input(): AsyncGenerator<SDKUserMessage, void> {
+    while (!closed) {
+      const next = pending.shift();
+      if (next) {
+        yield next;
+        continue;
+      }
+      await new Promise<void>((resolve) => (wake = resolve));
+    }
+  }
+
+  const q = query({ prompt: input(), options: { ...options, abortController } });
+
+  return {
+    send(prompt) {
+      if (closed) {
+        throw new Error("Cannot send to closed session");
+      }
+      pending.push({
+        type: "user",
+        session_id: "",
+        message: { role: "user", content: [{ type: "text", text: prompt }] },
+        parent_tool_use_id: null
+      });
+      wake?.();
+      wake = null;
+    },
+    async *stream() {
+      while (true) {
+        const { value, done } = await q.next();
+        if (done) return;
+        yield value;
+        if (value.type === "result") return;
+      }
+    },
+    ready: async () => {
+      await q.supportedCommands();
+    },
+    interrupt: () => q.interrupt(),
+    mcpServerStatus: () => q.mcpServerStatus(),
+    close() {
+      if (closed) return;
+      closed = true;
+      wake?.();
+      abortController.abort();
+    }
+  };
+}
+
+// Turns currently running, keyed by request ID so they can be cancelled from any connection
+interface ActiveTurn {
+  requestId: string;
+  pooled: PooledSession;
+  output: TurnOutput;
+  // Tools the account has approved ahead of time; everything else is asked about
+  allowedTools: Set<string>;
+  cancelled: boolean;
+  startedAt: number;
+  // Interrupted because the container is shutting down; ends with container_draining, not complete
+  drained?: boolean;
+  forceCloseTimer?: NodeJS.Timeout;
+  // Carries the turn's requestId (from the Worker) and session ID
+  log: Logger;
+}
+
+const activeTurns = new Map<string, ActiveTurn>();
+
+// Turns waiting for their conversation's running turn, keyed by request ID; aborting one dequeues it
+const queuedTurns = new Map<string, AbortController>();
+
+// Frames of recent turns, keyed by request ID, so a dropped connection can resume a turn
+const turnOutputs = new Map<string, TurnOutput>();
+
+// Tool calls waiting on an allow/deny answer from the browser, keyed by permission ID
+interface PendingPermission {
+  turn: ActiveTurn;
+  toolName: string;
+  input: Record<string, unknown>;
+  resolve: (result: PermissionResult) => void;
+  timer: NodeJS.Timeout;
 }
 
-const sessionPool = new Map<string, PooledSession>();
+const pendingPermissions = new Map<string, PendingPermission>();
 
 // Session pool configuration - customize via environment variables
-const POOL_SIZE = Number(process.env.POOL_SIZE) || 3;
+const POOL_MIN_SIZE = Number(process.env.POOL_MIN_SIZE) || 1;
+const POOL_MAX_SIZE = Math.max(POOL_MIN_SIZE, Number(process.env.POOL_MAX_SIZE) || 8);
+// Starting target for the default config's pre-warmed sessions; the pool controller adjusts it
+const POOL_SIZE = Math.min(POOL_MAX_SIZE, Math.max(POOL_MIN_SIZE, Number(process.env.POOL_SIZE) || 3));
+// Sessions pre-warmed at once; more wait for the next controller pass
+const PREWARM_CONCURRENCY = Number(process.env.PREWARM_CONCURRENCY) || 2;
+// Demand is the number of new conversations that took a pre-warmed or on-demand session in this window
+const POOL_DEMAND_WINDOW = Number(process.env.POOL_DEMAND_WINDOW_MS) || 5 * 60 * 1000;
+// The target shrinks by one for each such period without new conversations
+const POOL_IDLE_SHRINK = Number(process.env.POOL_IDLE_SHRINK_MS) || 10 * 60 * 1000;
+const POOL_CONTROL_INTERVAL = 15 * 1000;
+const PREWARM_BACKOFF_BASE = 1000;
+const PREWARM_BACKOFF_MAX = 5 * 60 * 1000;
+// How long a pre-warmed session may take for the SDK to initialize before the pre-warm counts as failed
+const PREWARM_READY_TIMEOUT = Number(process.env.PREWARM_READY_TIMEOUT_MS) || 30000;
 const SESSION_TIMEOUT = Number(process.env.SESSION_TIMEOUT_MS) || 25 * 60 * 1000;
 const PREWARM_DELAY = Number(process.env.PREWARM_DELAY_MS) || 2000;
+const CANCEL_GRACE = Number(process.env.CANCEL_GRACE_MS) || 10000;
+const PERMISSION_TIMEOUT = Number(process.env.PERMISSION_TIMEOUT_MS) || 60000;
+const WORKSPACE_ROOT = resolve(process.env.WORKSPACE_ROOT || join(process.cwd(), "workspaces"));
+const MAX_UPLOAD_BYTES = Number(process.env.MAX_UPLOAD_BYTES) || 10 * 1024 * 1024;
+const MAX_WORKSPACE_BYTES = Number(process.env.MAX_WORKSPACE_BYTES) || 100 * 1024 * 1024;
+const MAX_LISTED_FILES = 1000;
+const MCP_STATUS_TIMEOUT = 3000;
+const MAX_QUEUED_TURNS = Number(process.env.MAX_QUEUED_TURNS) || 5;
+// Seconds a client refused with session_busy should wait before retrying
+const SESSION_BUSY_RETRY_AFTER = 5;
+// How long a turn waits for its client to reconnect and resume, and how long a finished turn's
+// frames are kept for a late resume
+const RESUME_WINDOW = Number(process.env.RESUME_WINDOW_MS) || 30000;
+// Frames kept per turn for resuming; a client that falls further behind can't resume
+const TURN_BUFFER_FRAMES = Number(process.env.TURN_BUFFER_FRAMES) || 1000;
+// How long running turns may take to finish after SIGTERM before they are interrupted
+const SHUTDOWN_GRACE = Number(process.env.SHUTDOWN_GRACE_MS) || 30000;
+// Seconds a client should wait before retrying on a replacement container
+const DRAINING_RETRY_AFTER = 5;
+
+// Prometheus metrics served on GET /metrics; durations are in seconds
+const metrics = {
+  prewarmDuration: new Histogram(
+    "agent_pool_prewarm_duration_seconds",
+    "Time to create a pooled session",
+    [0.01, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10]
+  ),
+  sessionRequests: new Counter(
+    "agent_pool_session_requests_total",
+    "Sessions handed out for turns, by source (reused, pool_hit, resumed, on_demand, unavailable)"
+  ),
+  turnDuration: new Histogram(
+    "agent_turn_duration_seconds",
+    "Time from prompt to the end of a turn, by outcome",
+    [0.5, 1, 2.5, 5, 10, 20, 30, 60, 120, 300]
+  ),
+  timeToFirstToken: new Histogram(
+    "agent_turn_time_to_first_token_seconds",
+    "Time from prompt to the first assistant text",
+    [0.25, 0.5, 1, 2, 3, 5, 10, 20, 30]
+  ),
+  sessionsCleanedUp: new Counter("agent_pool_sessions_cleaned_up_total", "Sessions removed from the pool, by reason"),
+  errors: new Counter("agent_errors_total", "Errors, by type")
+};
+
+// Pre-warmed sessions wait for a new conversation; bound ones belong to a conversation
+const sessionManager = new SessionManager({
+  createSession: prewarmSession,
+  prepareResume,
+  fingerprint: configFingerprint,
+  maxQueuedTurns: MAX_QUEUED_TURNS,
+  log: poolLog,
+  onDiscard(reason, closeError) {
+    metrics.sessionsCleanedUp.inc({ reason });
+    if (closeError) metrics.errors.inc({ type: "session_close" });
+  }
+});
+
+new Gauge("agent_pool_sessions", "Sessions in the pool, by state", () => {
+  const sessions = sessionManager.list();
+  const inUse = sessions.filter((p) => p.inUse).length;
+  const prewarmed = sessions.filter((p) => !p.bound && !p.inUse).length;
+  return [
+    { labels: { state: "prewarmed" }, value: prewarmed },
+    { labels: { state: "idle" }, value: sessions.length - inUse - prewarmed },
+    { labels: { state: "in_use" }, value: inUse }
+  ];
+});
+new Gauge("agent_pool_target_size", "Pre-warmed sessions the pool controller aims for", () => [
+  { value: poolControl.target }
+]);
+new Gauge("agent_pool_prewarms_in_flight", "Sessions being pre-warmed", () => [{ value: prewarmer.inFlight }]);
+new Gauge("agent_active_turns", "Turns currently running", () => [{ value: activeTurns.size }]);
+new Gauge("agent_queued_turns", "Turns waiting for their session's running turn", () => [
+  { value: sessionManager.queuedTurns() }
+]);
+new Gauge("agent_pending_permissions", "Tool calls waiting for approval", () => [{ value: pendingPermissions.size }]);
+new Gauge("agent_uptime_seconds", "Seconds since the server started", () => [
+  { value: Math.floor((Date.now() - startTime) / 1000) }
+]);
 
-// Check for MCP configuration (Claude Code will discover it automatically)
-try {
-  const mcpConfigPath = join(process.cwd(), ".mcp.json");
-  const mcpConfig = JSON.parse(readFileSync(mcpConfigPath, "utf-8"));
-  const mcpServers = mcpConfig.mcpServers || {};
-  console.log(`[Startup] Found .mcp.json with servers: ${Object.keys(mcpServers).join(", ")}`);
-} catch (error) {
-  console.warn("[Startup] No .mcp.json found - MCP servers will not be available");
+// ${VAR} references in .mcp.json (e.g. tokens in headers) are filled in from the environment
+function expandEnv<T>(value: T): T {
+  if (typeof value === "string") {
+    return value.replace(/\$\{([A-Za-z_][A-Za-z0-9_]*)\}/g, (_, name) => process.env[name] || "") as T;
+  }
+  if (Array.isArray(value)) {
+    return value.map(expandEnv) as T;
+  }
+  if (typeof value === "object" && value !== null) {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, expandEnv(item)])) as T;
+  }
+  return value;
 }
 
-const SESSION_OPTIONS: SDKSessionOptions = {
+// MCP servers from .mcp.json, passed to every session explicitly
+function loadMcpServers(): Record<string, McpServerConfig> {
+  try {
+    const mcpConfigPath = join(process.cwd(), ".mcp.json");
+    const mcpConfig = JSON.parse(readFileSync(mcpConfigPath, "utf-8"));
+    const mcpServers = mcpConfig.mcpServers || {};
+    startupLog.info("Found .mcp.json", { servers: Object.keys(mcpServers) });
+    return expandEnv(mcpServers);
+  } catch {
+    startupLog.warn("No .mcp.json found, MCP servers will not be available");
+    return {};
+  }
+}
+
+// Minimal YAML frontmatter reader: top-level `key: value` pairs only, which is all SKILL.md uses
+function parseFrontmatter(text: string): Record<string, string> {
+  const match = text.match(/^---\r?\n([\s\S]*?)\r?\n---/);
+  if (!match) return {};
+  const fields: Record<string, string> = {};
+  for (const line of match[1].split(/\r?\n/)) {
+    const field = line.match(/^([A-Za-z0-9_-]+):\s*(.*)$/);
+    if (field) {
+      fields[field[1]] = field[2].trim().replace(/^(["'])(.*)\1$/, "$2");
+    }
+  }
+  return fields;
+}
+
+// Skills the SDK loads from .claude/skills/<skill>/SKILL.md (project setting source)
+function discoverSkills(): SkillInfo[] {
+  const skillsDir = join(process.cwd(), ".claude", "skills");
+  if (!existsSync(skillsDir)) return [];
+
+  const skills: SkillInfo[] = [];
+  for (const entry of readdirSync(skillsDir, { withFileTypes: true })) {
+    const skillFile = join(skillsDir, entry.name, "SKILL.md");
+    if (!entry.isDirectory() || !existsSync(skillFile)) continue;
+    try {
+      const frontmatter = parseFrontmatter(readFileSync(skillFile, "utf-8"));
+      skills.push({ name: frontmatter.name || entry.name, description: frontmatter.description || "" });
+    } catch (error) {
+      startupLog.warn("Could not read skill", { file: skillFile, error });
+    }
+  }
+  startupLog.info("Found skills", { skills: skills.map((s) => s.name) });
+  return skills;
+}
+
+// Custom tools: modules in tools/ (compiled next to server.js), served to every session by an
+// in-process SDK MCP server. See tool.ts for the module contract.
+const TOOLS_DIR = resolve(process.env.TOOLS_DIR || join(dirname(fileURLToPath(import.meta.url)), "tools"));
+const CUSTOM_TOOLS_SERVER = "custom-tools";
+const TOOL_NAME_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+
+type CallToolResult = Awaited<ReturnType<Parameters<typeof tool>[3]>>;
+
+interface LoadedTool {
+  definition: ToolDefinition;
+  shape: ZodRawShape;
+}
+
+function toZodShape(schema: ToolSchema): ZodRawShape {
+  if (schema instanceof z.ZodObject) {
+    return schema.shape;
+  }
+  if (typeof schema.type === "string" || "properties" in schema) {
+    const converted = z.fromJSONSchema(schema as Parameters<typeof z.fromJSONSchema>[0]);
+    if (!(converted instanceof z.ZodObject)) {
+      throw new Error("JSON schema must describe an object");
+    }
+    return converted.shape;
+  }
+  if (!Object.values(schema).every((field) => field instanceof z.ZodType)) {
+    throw new Error("schema must be a zod shape, a z.object() or a JSON schema");
+  }
+  return schema as ZodRawShape;
+}
+
+async function loadCustomTools(): Promise<LoadedTool[]> {
+  if (!existsSync(TOOLS_DIR)) return [];
+
+  const tools: LoadedTool[] = [];
+  const files = readdirSync(TOOLS_DIR).filter((file) => /\.m?js$/.test(file)).sort();
+  for (const file of files) {
+    try {
+      const imported = await import(pathToFileURL(join(TOOLS_DIR, file)).href);
+      const definition: ToolDefinition = imported.default ?? imported;
+      if (typeof definition.name !== "string" || !TOOL_NAME_PATTERN.test(definition.name)) {
+        throw new Error("name must be 1-64 letters, digits, '-' or '_'");
+      }
+      if (typeof definition.description !== "string" || typeof definition.handler !== "function") {
+        throw new Error("description and handler are required");
+      }
+      if (tools.some((loaded) => loaded.definition.name === definition.name)) {
+        throw new Error(`duplicate tool name ${definition.name}`);
+      }
+      if (typeof definition.schema !== "object" || definition.schema === null) {
+        throw new Error("schema is required");
+      }
+      tools.push({ definition, shape: toZodShape(definition.schema) });
+    } catch (error) {
+      startupLog.error("Skipping tool", { file, error });
+    }
+  }
+  startupLog.info("Loaded custom tools", { tools: tools.map((t) => t.definition.name) });
+  return tools;
+}
+
+// Strings become text; other values are returned as JSON, objects also as structured content
+function toToolResult(value: unknown): CallToolResult {
+  if (typeof value === "object" && value !== null && Array.isArray((value as CallToolResult).content)) {
+    return value as CallToolResult;
+  }
+  if (typeof value === "string") {
+    return { content: [{ type: "text", text: value }] };
+  }
+  const isObject = typeof value === "object" && value !== null && !Array.isArray(value);
+  return {
+    content: [{ type: "text", text: JSON.stringify(value ?? null) }],
+    ...(isObject && { structuredContent: value as Record<string, unknown> })
+  };
+}
+
+// Failures go back to the model as an error result it can read, never as a thrown exception
+function toolErrorResult(toolName: string, error: unknown): CallToolResult {
+  const payload = {
+    error: {
+      tool: toolName,
+      code: error instanceof ToolError ? error.code : "tool_failed",
+      message: error instanceof Error ? error.message : String(error),
+      ...(error instanceof ToolError && error.details && { details: error.details })
+    }
+  };
+  return { content: [{ type: "text", text: JSON.stringify(payload) }], structuredContent: payload, isError: true };
+}
+
+// An SDK MCP server instance can only serve one session, so each session gets its own
+function customToolsServer(): McpServerConfig | null {
+  if (CUSTOM_TOOLS.length === 0) return null;
+  return createSdkMcpServer({
+    name: CUSTOM_TOOLS_SERVER,
+    version: "1.0.0",
+    tools: CUSTOM_TOOLS.map(({ definition, shape }) =>
+      tool(definition.name, definition.description, shape, async (args, extra) => {
+        try {
+          const signal = (extra as { signal?: AbortSignal } | undefined)?.signal;
+          return toToolResult(await definition.handler(args, { signal }));
+        } catch (error) {
+          logger.error("Tool failed", { component: "tools", tool: definition.name, error });
+          metrics.errors.inc({ type: "tool" });
+          return toolErrorResult(definition.name, error);
+        }
+      })
+    )
+  });
+}
+
+const MCP_SERVERS = loadMcpServers();
+const SKILLS = discoverSkills();
+const CUSTOM_TOOLS = await loadCustomTools();
+
+// Custom tools are the template user's own code, so they skip the permission prompt unless they opt in
+const TRUSTED_TOOLS = new Set(
+  CUSTOM_TOOLS
+    .filter(({ definition }) => !definition.requiresPermission)
+    .map(({ definition }) => `mcp__${CUSTOM_TOOLS_SERVER}__${definition.name}`)
+);
+
+// Last status each MCP server reported, from session init messages or status queries
+const mcpStatuses = new Map<string, McpServerStatus>();
+
+const SESSION_OPTIONS: Options = {
   model: process.env.MODEL || "claude-haiku-4-5",
+  // Load skills and CLAUDE.md from the project's .claude directory
+  settingSources: ["project"],
   env: {
     ...process.env,
     ANTHROPIC_API_KEY: process.env.ANTHROPIC_API_KEY || "",
   }
 };
 
+// Stable key for a session configuration: sorted keys, sorted tool lists, no empty values
+function configFingerprint(config: SessionConfig): string {
+  const normalized = Object.entries(config)
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => [key, Array.isArray(value) ? [...value].sort() : value])
+    .sort(([a], [b]) => String(a).localeCompare(String(b)));
+  return JSON.stringify(normalized);
+}
+
+function sessionOptions(config: SessionConfig): Options {
+  const options: Options = { ...SESSION_OPTIONS };
+  if (config.model) options.model = config.model;
+  if (config.systemPrompt) options.systemPrompt = config.systemPrompt;
+  if (config.allowedTools) options.allowedTools = config.allowedTools;
+  if (config.disallowedTools) options.disallowedTools = config.disallowedTools;
+  if (config.maxTurns) options.maxTurns = config.maxTurns;
+  if (config.cwd) options.cwd = config.cwd;
+  // .mcp.json servers, then the account's (which may override them), then the custom tools
+  const customTools = customToolsServer();
+  options.mcpServers = {
+    ...MCP_SERVERS,
+    ...config.mcpServers,
+    ...(customTools && { [CUSTOM_TOOLS_SERVER]: customTools })
+  };
+  return options;
+}
+
+const DEFAULT_FINGERPRINT = configFingerprint({});
+
+// Configurations to keep pre-warmed: the default one always, others while they're in use
+const warmConfigs = new Map<string, { config: SessionConfig; lastRequested: number }>([
+  [DEFAULT_FINGERPRINT, { config: {}, lastRequested: Date.now() }]
+]);
+
+// The SDK persists each session as <config dir>/projects/<cwd slug>/<session id>.jsonl.
+// The container filesystem doesn't survive a sleep, so the Worker copies transcripts into the
+// Durable Object after each turn and restores them here before resuming an unknown session.
+const CLAUDE_CONFIG_DIR = process.env.CLAUDE_CONFIG_DIR || join(homedir(), ".claude");
+const PROJECTS_DIR = join(CLAUDE_CONFIG_DIR, "projects");
+const SESSION_ID_PATTERN = /^[A-Za-z0-9-]+$/;
+
+function findTranscript(sessionId: string): string | null {
+  if (!SESSION_ID_PATTERN.test(sessionId) || !existsSync(PROJECTS_DIR)) return null;
+  for (const project of readdirSync(PROJECTS_DIR)) {
+    const path = join(PROJECTS_DIR, project, `${sessionId}.jsonl`);
+    if (existsSync(path)) return path;
+  }
+  return null;
+}
+
+function writeTranscript(sessionId: string, transcript: string, cwd = process.cwd()) {
+  const projectDir = join(PROJECTS_DIR, cwd.replace(/[^A-Za-z0-9]/g, "-"));
+  mkdirSync(projectDir, { recursive: true });
+  writeFileSync(join(projectDir, `${sessionId}.jsonl`), transcript);
+}
+
+// Each chat gets its own directory under WORKSPACE_ROOT, named after its session ID
+// (or a client-generated draft ID until the session exists)
+function workspaceDir(workspace: string): string | null {
+  return SESSION_ID_PATTERN.test(workspace) ? join(WORKSPACE_ROOT, workspace) : null;
+}
+
+// Resolve a client-supplied path inside a workspace; null if it could escape it,
+// including through symlinks the agent may have created
+function resolveWorkspacePath(dir: string, relativePath: string): string | null {
+  if (!relativePath || relativePath.includes("\0") || isAbsolute(relativePath)) return null;
+  const target = resolve(dir, relativePath);
+  if (!target.startsWith(dir + sep)) return null;
+
+  if (existsSync(dir)) {
+    let existing = target;
+    while (!existsSync(existing)) existing = dirname(existing);
+    const realDir = realpathSync(dir);
+    const real = realpathSync(existing);
+    if (real !== realDir && !real.startsWith(realDir + sep)) return null;
+  }
+  return target;
+}
+
+function listWorkspace(workspace: string, dir: string): WorkspaceListing {
+  const files: WorkspaceEntry[] = [];
+  let totalBytes = 0;
+  let truncated = false;
+  if (!existsSync(dir)) return { workspace, files, totalBytes, truncated };
+
+  // Draft workspaces are reached through a symlink; list paths relative to the real directory
+  const root = realpathSync(dir);
+
+  const walk = (current: string) => {
+    for (const name of readdirSync(current).sort()) {
+      const path = join(current, name);
+      const stats = lstatSync(path);
+      // Symlinks aren't followed so the listing can't leave the workspace
+      if (stats.isSymbolicLink()) continue;
+      if (stats.isFile()) totalBytes += stats.size;
+      if (files.length >= MAX_LISTED_FILES) {
+        truncated = true;
+      } else {
+        files.push({
+          path: relative(root, path).split(sep).join("/"),
+          type: stats.isDirectory() ? "directory" : "file",
+          size: stats.isFile() ? stats.size : 0,
+          modifiedAt: stats.mtimeMs
+        });
+      }
+      if (stats.isDirectory()) walk(path);
+    }
+  };
+
+  walk(root);
+  return { workspace, files, totalBytes, truncated };
+}
+
+// Read a request body, rejecting it as soon as it grows past `limit` bytes
+function readBody(req: http.IncomingMessage, limit: number): Promise<Buffer | null> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on("data", (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > limit) {
+        resolve(null);
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on("end", () => resolve(Buffer.concat(chunks)));
+    req.on("error", reject);
+  });
+}
+
+// Make a draft workspace reachable under the session ID once the SDK assigns one
+function linkWorkspace(workspace: string | undefined, sessionId: string) {
+  if (!workspace || workspace === sessionId) return;
+  const source = workspaceDir(workspace);
+  const target = workspaceDir(sessionId);
+  if (!source || !target || !existsSync(source) || existsSync(target)) return;
+  try {
+    symlinkSync(workspace, target, "dir");
+    workspaceLog.info("Linked workspace", { workspace, sessionId });
+  } catch (err) {
+    workspaceLog.error("Failed to link workspace", { workspace, sessionId, error: err });
+  }
+}
+
+// Point the agent at the chat's workspace and the files attached to this prompt
+function withWorkspaceContext(prompt: string, workspace: string | undefined, attachments: string[] = []): string {
+  const dir = workspace ? workspaceDir(workspace) : null;
+  if (!dir) return prompt;
+
+  const attached = attachments
+    .map(path => resolveWorkspacePath(dir, path))
+    .filter((path): path is string => path !== null && existsSync(path));
+
+  const lines = [`Workspace directory: ${dir} (save files meant for the user here)`];
+  if (attached.length > 0) {
+    lines.push(`Attached files:\n${attached.map(path => `- ${path}`).join("\n")}`);
+  }
+  return `${prompt}\n\n${lines.join("\n")}`;
+}
+
+function sendFrame(ws: WebSocket, frame: ServerFrame) {
+  ws.send(encodeFrame(frame));
+}
+
+function openTurnOutput(requestId: string, owner: string | null, ws: WebSocket): TurnOutput {
+  const output = new TurnOutput(requestId, owner, ws, TURN_BUFFER_FRAMES);
+  turnOutputs.set(requestId, output);
+  return output;
+}
+
+// The turn sent its last frame; keep it around briefly for clients that reconnect late
+function finishTurnOutput(output: TurnOutput) {
+  output.finish();
+  setTimeout(() => {
+    if (turnOutputs.get(output.requestId) === output) turnOutputs.delete(output.requestId);
+  }, RESUME_WINDOW);
+}
+
+function drainingError(message: string): ErrorFrame {
+  return { ...errorFrame("container_draining", message), retryAfter: DRAINING_RETRY_AFTER };
+}
+
+// Settle a pending permission request and tell the client how it was resolved
+function resolvePermission(permissionId: string, allow: boolean, reason: string): boolean {
+  const pending = pendingPermissions.get(permissionId);
+  if (!pending) return false;
+
+  pendingPermissions.delete(permissionId);
+  clearTimeout(pending.timer);
+
+  const { turn } = pending;
+  turn.log.info(allow ? "Tool allowed" : "Tool denied", { component: "permissions", toolName: pending.toolName, reason });
+
+  pending.resolve(allow
+    ? { behavior: "allow", updatedInput: pending.input }
+    : { behavior: "deny", message: reason, interrupt: turn.cancelled });
+
+  turn.output.send({
+    type: "permission_resolved",
+    requestId: turn.requestId,
+    permissionId,
+    behavior: allow ? "allow" : "deny",
+    reason
+  });
+  return true;
+}
+
+// canUseTool callback: auto-allow tools on the account's allow-list, otherwise ask the
+// browser through the turn's stream and deny if nobody answers within PERMISSION_TIMEOUT
+function createPermissionHandler(getPooled: () => PooledSession): CanUseTool {
+  return async (toolName, input, { signal }) => {
+    const pooled = getPooled();
+    const turn = Array.from(activeTurns.values()).find(t => t.pooled === pooled);
+    if (!turn) {
+      return { behavior: "deny", message: "No active turn to approve this tool call" };
+    }
+
+    if (turn.allowedTools.has(toolName) || TRUSTED_TOOLS.has(toolName)) {
+      return { behavior: "allow", updatedInput: input };
+    }
+
+    const permissionId = crypto.randomUUID();
+    return new Promise<PermissionResult>((resolve) => {
+      pendingPermissions.set(permissionId, {
+        turn,
+        toolName,
+        input,
+        resolve,
+        timer: setTimeout(() => resolvePermission(permissionId, false, "Permission request timed out"), PERMISSION_TIMEOUT)
+      });
+
+      signal.addEventListener("abort", () => resolvePermission(permissionId, false, "Permission request aborted"), { once: true });
+
+      turn.log.info("Asking client to approve tool", { component: "permissions", toolName });
+      turn.output.send({
+        type: "permission_request",
+        requestId: turn.requestId,
+        permissionId,
+        toolName,
+        input,
+        timeoutMs: PERMISSION_TIMEOUT
+      });
+    });
+  };
+}
+
 // Pre-warm a session (create it but don't send any messages yet)
-async function prewarmSession(options: SDKSessionOptions): Promise<PooledSession | null> {
+async function prewarmSession(config: SessionConfig, resume?: string): Promise<PooledSession | null> {
   try {
-    console.log(`[SessionPool] Pre-warming session...`);
+    poolLog.debug("Pre-warming session");
     const prewarmStart = Date.now();
 
-    const session = unstable_v2_createSession(options);
-
     // Generate a temporary session ID (will be replaced with real one after first message)
     const tempSessionId = `prewarm-${crypto.randomUUID()}`;
 
-    const initTime = Date.now() - prewarmStart;
-    console.log(`[SessionPool] ✓ Session ${tempSessionId.substring(0, 8)} created in ${initTime}ms`);
-
-    return {
-      session,
+    const pooled: PooledSession = {
+      session: createAgentSession({
+        ...sessionOptions(config),
+        ...(resume && { resume }),
+        canUseTool: createPermissionHandler(() => pooled)
+      }),
       sessionId: tempSessionId,
+      fingerprint: configFingerprint(config),
       createdAt: Date.now(),
       lastUsed: Date.now(),
-      inUse: false
+      inUse: false,
+      bound: false
     };
+
+    const initTime = Date.now() - prewarmStart;
+    metrics.prewarmDuration.observe(initTime / 1000);
+    poolLog.info("Session created", { sessionId: tempSessionId, durationMs: initTime });
+
+    return pooled;
   } catch (error) {
-    console.error("[SessionPool] Failed to prewarm session:", error);
+    poolLog.error("Failed to prewarm session", { error });
+    metrics.errors.inc({ type: "prewarm" });
     return null;
   }
 }
 
-// Track original Map key for each session (to handle re-keying)
-const sessionKeyMap = new Map<PooledSession, string>();
+// Make a persisted transcript resumable, e.g. after a restart or a config change. The SDK looks
+// for it under the project directory of the session's cwd, so it is copied there if needed.
+function prepareResume(sessionId: string, config: SessionConfig): boolean {
+  const path = findTranscript(sessionId);
+  if (!path) return false;
 
-// Get or create a session from the pool
-async function getSession(userSessionId?: string): Promise<PooledSession | null> {
-  // If user has an existing session, try to reuse it
-  if (userSessionId && sessionPool.has(userSessionId)) {
-    const pooled = sessionPool.get(userSessionId)!;
-    if (!pooled.inUse) {
-      pooled.inUse = true;
-      pooled.lastUsed = Date.now();
-      console.log(`[SessionPool] Reusing existing session ${userSessionId.substring(0, 8)}`);
-      return pooled;
-    }
+  const cwd = config.cwd ?? process.cwd();
+  if (!path.startsWith(join(PROJECTS_DIR, cwd.replace(/[^A-Za-z0-9]/g, "-")))) {
+    writeTranscript(sessionId, readFileSync(path, "utf-8"), cwd);
   }
+  return true;
+}
 
-  // Find any available session
-  for (const [id, pooled] of sessionPool.entries()) {
-    if (!pooled.inUse) {
-      pooled.inUse = true;
-      pooled.lastUsed = Date.now();
-      sessionKeyMap.set(pooled, id); // Track current key
-      console.log(`[SessionPool] Assigned session ${id.substring(0, 8)}`);
-      return pooled;
-    }
+// Interrupt a running turn; the SDK emits a final result so the session can return to the pool.
+// If it doesn't settle within CANCEL_GRACE the session is force-closed and discarded instead.
+async function cancelTurn(requestId: string): Promise<boolean> {
+  // Still waiting for its session: just leave the queue
+  const queued = queuedTurns.get(requestId);
+  if (queued) {
+    queued.abort();
+    return true;
   }
 
-  // No available session, create new one
-  console.log(`[SessionPool] No available sessions, creating new session...`);
-  const newSession = await prewarmSession(SESSION_OPTIONS);
+  const turn = activeTurns.get(requestId);
+  if (!turn) return false;
+  if (turn.cancelled) return true;
 
-  // Add to pool so it can be tracked and reused
-  if (newSession) {
-    sessionPool.set(newSession.sessionId, newSession);
-    sessionKeyMap.set(newSession, newSession.sessionId);
-    console.log(`[SessionPool] Added on-demand session ${newSession.sessionId.substring(0, 8)} to pool (${sessionPool.size} total)`);
+  turn.cancelled = true;
+  turn.log.info("Interrupting turn", { component: "cancel" });
+
+  // Outstanding approvals can't be answered any more
+  for (const [permissionId, pending] of pendingPermissions) {
+    if (pending.turn === turn) {
+      resolvePermission(permissionId, false, "Turn cancelled");
+    }
   }
 
-  return newSession;
+  turn.forceCloseTimer = setTimeout(() => {
+    turn.log.warn("Turn did not stop in time, closing session", { component: "cancel", graceMs: CANCEL_GRACE });
+    turn.pooled.broken = true;
+    turn.pooled.session.close();
+  }, CANCEL_GRACE);
+
+  try {
+    await turn.pooled.session.interrupt();
+  } catch (err) {
+    turn.log.error("Interrupt failed", { component: "cancel", error: err });
+    metrics.errors.inc({ type: "interrupt" });
+  }
+  return true;
 }
 
-// Update session key in pool when real ID is received from SDK
-function updateSessionKey(session: PooledSession, newSessionId: string) {
-  const oldKey = sessionKeyMap.get(session);
-  if (oldKey && oldKey !== newSessionId) {
-    sessionPool.delete(oldKey);
-    sessionPool.set(newSessionId, session);
-    sessionKeyMap.set(session, newSessionId);
-    console.log(`[SessionPool] Re-keyed session ${oldKey.substring(0, 8)} → ${newSessionId.substring(0, 8)}`);
+// Operator eviction (admin page): an idle session is closed right away, a busy one is interrupted
+// and discarded when its turn ends. Returns null for sessions the pool doesn't hold.
+async function evictSession(sessionId: string): Promise<{ interrupted: boolean } | null> {
+  const pooled = sessionManager.find(sessionId);
+  if (!pooled) return null;
+
+  if (!pooled.inUse) {
+    sessionManager.discard(pooled);
+    return { interrupted: false };
+  }
+  // Marked broken, so the manager closes it when the turn releases it
+  sessionManager.discard(pooled);
+  const turn = Array.from(activeTurns.values()).find((t) => t.pooled === pooled);
+  if (turn) {
+    await cancelTurn(turn.requestId);
   }
-  session.sessionId = newSessionId;
+  poolLog.info("Evicting busy session", { sessionId });
+  return { interrupted: !!turn };
 }
 
-// Release session back to pool
-function releaseSession(session: PooledSession) {
-  session.inUse = false;
-  session.lastUsed = Date.now();
-  console.log(`[SessionPool] Released session ${session.sessionId.substring(0, 8)}`);
+// Adaptive sizing of the default config's pre-warmed sessions. The target moves between
+// POOL_MIN_SIZE and POOL_MAX_SIZE: it grows on on-demand misses and when recent demand exceeds it,
+// and shrinks by one per idle period. Configs other than the default keep one spare while in use.
+type ScalingReason = "initial" | "on_demand_miss" | "demand" | "idle";
+
+interface ScalingDecision {
+  at: number;
+  from: number;
+  to: number;
+  reason: ScalingReason;
+  // New conversations in the demand window, and on-demand misses since the previous pass
+  demand: number;
+  misses: number;
 }
 
-// Cleanup old sessions
-function cleanupSessions() {
+const MAX_SCALING_DECISIONS = 20;
+
+const poolControl = {
+  target: POOL_SIZE,
+  reason: "initial" as ScalingReason,
+  decidedAt: Date.now(),
+  // When new conversations on the default config took a session
+  demand: [] as number[],
+  misses: 0,
+  lastDemandAt: Date.now(),
+  lastShrinkAt: Date.now(),
+  decisions: [] as ScalingDecision[]
+};
+
+// A new conversation took a session; only default-config sessions drive the target
+function recordPoolDemand(source: SessionSource, fingerprint: string) {
+  if (fingerprint !== DEFAULT_FINGERPRINT || (source !== "pool_hit" && source !== "on_demand")) return;
   const now = Date.now();
-  for (const [id, pooled] of sessionPool.entries()) {
-    if (now - pooled.lastUsed > SESSION_TIMEOUT) {
-      try {
-        pooled.session.close();
-        sessionPool.delete(id);
-        sessionKeyMap.delete(pooled);
-        console.log(`[SessionPool] Cleaned up session ${id.substring(0, 8)}`);
-      } catch (err) {
-        console.error(`[SessionPool] Error cleaning up session:`, err);
-      }
-    }
+  poolControl.demand.push(now);
+  poolControl.lastDemandAt = now;
+  if (source === "on_demand") poolControl.misses++;
+  adjustPool();
+}
+
+function scalePool(now: number) {
+  poolControl.demand = poolControl.demand.filter((at) => now - at <= POOL_DEMAND_WINDOW);
+  const demand = poolControl.demand.length;
+  const misses = poolControl.misses;
+  poolControl.misses = 0;
+  const from = poolControl.target;
+
+  let to = from;
+  let reason: ScalingReason | null = null;
+  if (misses > 0 && from < POOL_MAX_SIZE) {
+    to = Math.min(POOL_MAX_SIZE, from + misses);
+    reason = "on_demand_miss";
+  } else if (demand > from && from < POOL_MAX_SIZE) {
+    to = Math.min(POOL_MAX_SIZE, demand);
+    reason = "demand";
+  } else if (from > POOL_MIN_SIZE && now - Math.max(poolControl.lastDemandAt, poolControl.lastShrinkAt) > POOL_IDLE_SHRINK) {
+    to = from - 1;
+    reason = "idle";
+    poolControl.lastShrinkAt = now;
   }
+  if (!reason) return;
 
-  // Maintain pool size
-  const availableCount = Array.from(sessionPool.values()).filter(p => !p.inUse).length;
-  if (availableCount < POOL_SIZE) {
-    const needed = POOL_SIZE - availableCount;
-    console.log(`[SessionPool] Pool low (${availableCount}/${POOL_SIZE}), pre-warming ${needed} sessions...`);
+  poolControl.target = to;
+  poolControl.reason = reason;
+  poolControl.decidedAt = now;
+  poolControl.decisions.push({ at: now, from, to, reason, demand, misses });
+  poolControl.decisions.splice(0, poolControl.decisions.length - MAX_SCALING_DECISIONS);
+  poolLog.info("Pool target changed", { from, to, reason, demand, misses });
+}
 
-    // Pre-warm more sessions (async, don't wait)
-    for (let i = 0; i < needed; i++) {
-      prewarmSession(SESSION_OPTIONS).then(pooled => {
-        if (pooled) {
-          sessionPool.set(pooled.sessionId, pooled);
-        }
-      });
+// One controller pass: rescale, close surplus sessions, then pre-warm what's missing within
+// PREWARM_CONCURRENCY unless a recent failure put pre-warming in backoff
+function adjustPool() {
+  if (draining) return;
+  const now = Date.now();
+  scalePool(now);
+  sessionManager.trimPrewarmed(DEFAULT_FINGERPRINT, poolControl.target);
+  if (prewarmer.backingOff(now)) return;
+
+  for (const [fingerprint, { config }] of warmConfigs.entries()) {
+    const target = fingerprint === DEFAULT_FINGERPRINT ? poolControl.target : 1;
+    const needed = target - sessionManager.availablePrewarmed(fingerprint) - prewarmer.pending(fingerprint);
+    const slots = Math.min(needed, PREWARM_CONCURRENCY - prewarmer.inFlight);
+    if (slots <= 0) continue;
+    poolLog.debug("Pool low, pre-warming sessions", { target, needed, starting: slots });
+    for (let i = 0; i < slots; i++) void prewarmer.start(fingerprint, config);
+  }
+}
+
+// Pre-warmed sessions only join the pool once the SDK has initialized; failures back off
+const prewarmer = new Prewarmer({
+  createSession: prewarmSession,
+  readyTimeout: PREWARM_READY_TIMEOUT,
+  backoffBase: PREWARM_BACKOFF_BASE,
+  backoffMax: PREWARM_BACKOFF_MAX,
+  onReady(pooled) {
+    sessionManager.addPrewarmed(pooled);
+    poolLog.info("Added session to pool", { sessionId: pooled.sessionId, poolSize: sessionManager.size, target: poolControl.target });
+    // Fill whatever the concurrency limit held back
+    adjustPool();
+  },
+  onRetry: adjustPool,
+  onNotReady: () => metrics.errors.inc({ type: "prewarm_not_ready" }),
+  log: poolLog
+});
+
+function poolControlStatus() {
+  return {
+    target: poolControl.target,
+    min: POOL_MIN_SIZE,
+    max: POOL_MAX_SIZE,
+    prewarmed: sessionManager.availablePrewarmed(DEFAULT_FINGERPRINT),
+    prewarming: prewarmer.inFlight,
+    demand: poolControl.demand.filter((at) => Date.now() - at <= POOL_DEMAND_WINDOW).length,
+    reason: poolControl.reason,
+    decidedAt: poolControl.decidedAt,
+    failures: prewarmer.failures,
+    backoffUntil: prewarmer.backingOff() ? prewarmer.backoffUntil : null,
+    decisions: poolControl.decisions
+  };
+}
+
+// Close idle sessions and forget configs nobody has asked for lately, then rebalance the pool
+function cleanupSessions() {
+  const now = Date.now();
+  sessionManager.removeIdle(SESSION_TIMEOUT);
+
+  for (const [fingerprint, { lastRequested }] of warmConfigs.entries()) {
+    if (fingerprint !== DEFAULT_FINGERPRINT && now - lastRequested > SESSION_TIMEOUT) {
+      warmConfigs.delete(fingerprint);
     }
   }
+  adjustPool();
 }
 
 // Run cleanup every 5 minutes
 setInterval(cleanupSessions, 5 * 60 * 1000);
 
-console.log(`[Startup] Creating HTTP server (+${Date.now() - startTime}ms)`);
+startupLog.info("Creating HTTP server", { sinceStartMs: Date.now() - startTime });
 
 let serverReady = false;
+// Set on SIGTERM: new prompts are refused while running turns finish
+let draining = false;
+
+function recordMcpStatuses(servers: { name: string; status: string }[]) {
+  for (const server of servers) {
+    mcpStatuses.set(server.name, server.status as McpServerStatus);
+  }
+}
+
+// Skills and MCP servers this container loads. MCP status is asked of an idle session when one is
+// available, falling back to what the last session init reported.
+async function discover(): Promise<ContainerDiscovery> {
+  const idle = sessionManager.list().find((p) => !p.inUse && !p.broken);
+  if (idle && Object.keys(MCP_SERVERS).length > 0) {
+    let timer: NodeJS.Timeout | undefined;
+    try {
+      const statuses = await Promise.race([
+        idle.session.mcpServerStatus(),
+        new Promise<never>((_, reject) => {
+          timer = setTimeout(() => reject(new Error("timed out")), MCP_STATUS_TIMEOUT);
+        })
+      ]);
+      recordMcpStatuses(statuses);
+    } catch (error) {
+      logger.warn("MCP status unavailable", { component: "config", error });
+      metrics.errors.inc({ type: "mcp_status" });
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  const mcpServers: McpServerInfo[] = Object.entries(MCP_SERVERS).map(([name, config]) => ({
+    name,
+    type: config.type || "stdio",
+    status: mcpStatuses.get(name) || "unknown"
+  }));
+  if (CUSTOM_TOOLS.length > 0) {
+    mcpServers.push({ name: CUSTOM_TOOLS_SERVER, type: "sdk", status: mcpStatuses.get(CUSTOM_TOOLS_SERVER) || "unknown" });
+  }
+  const tools: ToolInfo[] = CUSTOM_TOOLS.map(({ definition }) => ({
+    name: definition.name,
+    description: definition.description,
+    server: CUSTOM_TOOLS_SERVER
+  }));
+  return { skills: SKILLS, mcpServers, tools };
+}
+
+function containerStatus(): ContainerStatus {
+  return {
+    uptime: Date.now() - startTime,
+    poolSize: sessionManager.size,
+    available: sessionManager.available,
+    sessions: sessionManager.list().map((p) => ({
+      sessionId: p.sessionId,
+      inUse: p.inUse,
+      prewarmed: !p.bound,
+      broken: !!p.broken,
+      createdAt: p.createdAt,
+      lastUsed: p.lastUsed
+    })),
+    turns: Array.from(activeTurns.values()).map((turn) => ({
+      requestId: turn.requestId,
+      sessionId: turn.pooled.sessionId,
+      startedAt: turn.startedAt,
+      cancelled: turn.cancelled,
+      pendingPermissions: Array.from(pendingPermissions.values()).filter(p => p.turn === turn).length
+    }))
+  };
+}
+
+function readJsonBody(req: http.IncomingMessage): Promise<Record<string, unknown>> {
+  return new Promise((resolve, reject) => {
+    let raw = "";
+    req.on("data", (chunk) => (raw += chunk));
+    req.on("end", () => {
+      try {
+        resolve(JSON.parse(raw || "{}"));
+      } catch (err) {
+        reject(err);
+      }
+    });
+    req.on("error", reject);
+  });
+}
 
 const server = http.createServer(async (req, res) => {
   if (req.url === "/healthz" && req.method === "GET") {
@@ -183,172 +1052,631 @@ const server = http.createServer(async (req, res) => {
     return res.end("ok");
   }
 
+  const cancelMatch = req.url?.match(/^\/turns\/([^/]+)\/cancel$/);
+  if (cancelMatch && req.method === "POST") {
+    const cancelled = await cancelTurn(decodeURIComponent(cancelMatch[1]));
+    res.writeHead(cancelled ? 200 : 404, { "content-type": "application/json" });
+    return res.end(JSON.stringify({ cancelled }));
+  }
+
+  // Who a buffered turn belongs to and how far it got, so the Worker can check a resume before proxying it
+  const turnMatch = req.url?.match(/^\/turns\/([^/]+)$/);
+  if (turnMatch && req.method === "GET") {
+    const output = turnOutputs.get(decodeURIComponent(turnMatch[1]));
+    res.writeHead(output ? 200 : 404, { "content-type": "application/json" });
+    return res.end(JSON.stringify(output
+      ? { owner: output.owner, lastSeq: output.lastSeq, finished: output.finishedAt !== null }
+      : { error: "Turn not found" }));
+  }
+
+  const permissionMatch = req.url?.match(/^\/permissions\/([^/]+)$/);
+  if (permissionMatch && req.method === "POST") {
+    const body = await readJsonBody(req).catch(() => null);
+    if (!body || typeof body.allow !== "boolean") {
+      res.writeHead(400, { "content-type": "application/json" });
+      return res.end(JSON.stringify({ error: "Expected { allow: boolean }" }));
+    }
+    const resolved = resolvePermission(
+      decodeURIComponent(permissionMatch[1]),
+      body.allow,
+      body.allow ? "Approved by user" : "Denied by user"
+    );
+    res.writeHead(resolved ? 200 : 404, { "content-type": "application/json" });
+    return res.end(JSON.stringify({ resolved }));
+  }
+
+  const sessionMatch = req.url?.match(/^\/sessions\/([^/]+)(\/transcript)?$/);
+  if (sessionMatch) {
+    const sessionId = decodeURIComponent(sessionMatch[1]);
+    if (!SESSION_ID_PATTERN.test(sessionId)) {
+      res.writeHead(400, { "content-type": "application/json" });
+      return res.end(JSON.stringify({ error: "Invalid session ID" }));
+    }
+
+    // Whether this session can be continued without restoring its transcript
+    if (!sessionMatch[2] && req.method === "GET") {
+      const known = sessionManager.has(sessionId) || findTranscript(sessionId) !== null;
+      res.writeHead(200, { "content-type": "application/json" });
+      return res.end(JSON.stringify({ known }));
+    }
+
+    if (!sessionMatch[2] && req.method === "DELETE") {
+      const evicted = await evictSession(sessionId);
+      res.writeHead(evicted ? 200 : 404, { "content-type": "application/json" });
+      return res.end(JSON.stringify(evicted ? { evicted: true, ...evicted } : { error: "Session is not in the pool" }));
+    }
+
+    if (sessionMatch[2] && req.method === "GET") {
+      const path = findTranscript(sessionId);
+      if (!path) {
+        res.writeHead(404, { "content-type": "application/json" });
+        return res.end(JSON.stringify({ error: "Transcript not found" }));
+      }
+      res.writeHead(200, { "content-type": "application/x-ndjson" });
+      return res.end(readFileSync(path));
+    }
+
+    if (sessionMatch[2] && req.method === "PUT") {
+      let transcript = "";
+      for await (const chunk of req) transcript += chunk;
+      // The local copy is newer than anything the Worker has stored
+      if (!findTranscript(sessionId)) {
+        writeTranscript(sessionId, transcript);
+        logger.info("Restored transcript", { component: "sessions", sessionId, bytes: transcript.length });
+      }
+      res.writeHead(204);
+      return res.end();
+    }
+  }
+
+  const url = new URL(req.url ?? "/", "http://localhost");
+  if (url.pathname === "/files" || url.pathname.startsWith("/files/")) {
+    const workspace = url.searchParams.get("workspace") ?? "";
+    const dir = workspaceDir(workspace);
+    if (!dir) {
+      res.writeHead(400, { "content-type": "application/json" });
+      return res.end(JSON.stringify({ error: "Invalid workspace" }));
+    }
+
+    if (url.pathname === "/files" && req.method === "GET") {
+      res.writeHead(200, { "content-type": "application/json" });
+      return res.end(JSON.stringify(listWorkspace(workspace, dir)));
+    }
+
+    if (url.pathname === "/files" && req.method === "POST") {
+      const path = resolveWorkspacePath(dir, url.searchParams.get("path") ?? "");
+      if (!path) {
+        res.writeHead(400, { "content-type": "application/json" });
+        return res.end(JSON.stringify({ error: "Invalid path" }));
+      }
+      if (Number(req.headers["content-length"]) > MAX_UPLOAD_BYTES) {
+        res.writeHead(413, { "content-type": "application/json" });
+        return res.end(JSON.stringify({ error: `Files are limited to ${MAX_UPLOAD_BYTES} bytes` }));
+      }
+
+      const body = await readBody(req, MAX_UPLOAD_BYTES);
+      if (!body) {
+        res.writeHead(413, { "content-type": "application/json", connection: "close" });
+        return res.end(JSON.stringify({ error: `Files are limited to ${MAX_UPLOAD_BYTES} bytes` }));
+      }
+      if (listWorkspace(workspace, dir).totalBytes + body.length > MAX_WORKSPACE_BYTES) {
+        res.writeHead(413, { "content-type": "application/json" });
+        return res.end(JSON.stringify({ error: `Workspace is limited to ${MAX_WORKSPACE_BYTES} bytes` }));
+      }
+
+      mkdirSync(dirname(path), { recursive: true });
+      writeFileSync(path, body);
+      workspaceLog.info("Stored file", { workspace, path: relative(dir, path), bytes: body.length });
+
+      const entry: WorkspaceEntry = {
+        path: relative(dir, path).split(sep).join("/"),
+        type: "file",
+        size: body.length,
+        modifiedAt: Date.now()
+      };
+      res.writeHead(201, { "content-type": "application/json" });
+      return res.end(JSON.stringify({ file: entry }));
+    }
+
+    if (req.method === "GET") {
+      let requested = "";
+      try {
+        requested = decodeURIComponent(url.pathname.slice("/files/".length));
+      } catch {
+        // Malformed escapes fall through to "not found"
+      }
+      const path = resolveWorkspacePath(dir, requested);
+      const stats = path && existsSync(path) ? lstatSync(path) : null;
+      if (!path || !stats?.isFile()) {
+        res.writeHead(404, { "content-type": "application/json" });
+        return res.end(JSON.stringify({ error: "File not found" }));
+      }
+      res.writeHead(200, {
+        "content-type": "application/octet-stream",
+        "content-length": stats.size,
+        "content-disposition": `attachment; filename="${encodeURIComponent(basename(path))}"`
+      });
+      createReadStream(path).pipe(res);
+      return;
+    }
+  }
+
+  if (req.url === "/config" && req.method === "GET") {
+    res.writeHead(200, { "content-type": "application/json" });
+    return res.end(JSON.stringify(await discover()));
+  }
+
   if (req.url === "/ready" && req.method === "GET") {
     const poolStats = {
       ready: serverReady,
+      draining,
       uptime: Date.now() - startTime,
-      poolSize: sessionPool.size,
-      available: Array.from(sessionPool.values()).filter(p => !p.inUse).length
+      poolSize: sessionManager.size,
+      available: sessionManager.available,
+      pool: poolControlStatus()
     };
     res.writeHead(serverReady ? 200 : 503, { "content-type": "application/json" });
     return res.end(JSON.stringify(poolStats));
   }
 
+  // Pool sessions and running turns for the Worker's admin page
+  if (req.url === "/status" && req.method === "GET") {
+    res.writeHead(200, { "content-type": "application/json" });
+    return res.end(JSON.stringify(containerStatus()));
+  }
+
+  if (req.url === "/metrics" && req.method === "GET") {
+    res.writeHead(200, { "content-type": METRICS_CONTENT_TYPE });
+    return res.end(renderMetrics());
+  }
+
   res.writeHead(404, { "content-type": "text/plain" });
   res.end("Not Found");
 });
 
-console.log(`[Startup] Creating WebSocket server (+${Date.now() - startTime}ms)`);
+startupLog.info("Creating WebSocket server", { sinceStartMs: Date.now() - startTime });
 
 const wss = new WebSocketServer({ server });
 
 wss.on("connection", (ws) => {
-  console.log("[WebSocket] Client connected");
+  const wsLog = logger.child({ component: "websocket" });
+  wsLog.info("Client connected");
 
   ws.on("message", async (data) => {
-    let assignedSession: PooledSession | null = null;
+    let lease: SessionLease | null = null;
+    let output: TurnOutput | null = null;
+    let requestId: string | null = null;
+    let log = wsLog;
+    // Set once a prompt is accepted; the turn counts as an error unless it reaches `complete`
+    let queryStart: number | null = null;
+    let outcome = "error";
+    let turnSpan: Span | null = null;
 
     try {
-      const message = JSON.parse(data.toString());
-      const { prompt, sessionId: incomingSessionId } = message;
+      let message;
+      try {
+        message = parseClientFrame(data.toString());
+      } catch (error) {
+        if (!(error instanceof ProtocolError)) throw error;
+        log.warn("Rejected frame", { code: error.code, error: error.message });
+        metrics.errors.inc({ type: "protocol" });
+        sendFrame(ws, errorFrame(error.code, error.message));
+        return;
+      }
+
+      if (message.type === "cancel") {
+        log = wsLog.child({ requestId: message.requestId });
+        const cancelled = await cancelTurn(message.requestId);
+        sendFrame(ws, { type: "cancel_ack", requestId: message.requestId, cancelled });
+        return;
+      }
+
+      if (message.type === "resume") {
+        log = wsLog.child({ requestId: message.requestId });
+        const resumed = turnOutputs.get(message.requestId);
+        // Another account's turn is reported as unknown
+        if (!resumed || !resumed.isOwnedBy(message.accountId)) {
+          log.warn(resumed ? "Resume by another account refused" : "Resume for unknown turn", { after: message.after });
+          sendFrame(ws, errorFrame("turn_not_found", "Turn is no longer available"));
+          return;
+        }
+        if (!resumed.attach(ws, message.after)) {
+          log.warn("Resume gap, frames already dropped", { after: message.after, lastSeq: resumed.lastSeq });
+          sendFrame(ws, errorFrame("turn_not_found", "Turn output after the last received frame is no longer buffered"));
+          return;
+        }
+        log.info("Turn resumed", { after: message.after, lastSeq: resumed.lastSeq, finished: resumed.finishedAt !== null });
+        return;
+      }
+
+      if (message.type === "permission_response") {
+        const resolved = resolvePermission(
+          message.permissionId,
+          message.allow,
+          message.allow ? "Approved by user" : "Denied by user"
+        );
+        if (!resolved) {
+          sendFrame(ws, {
+            type: "permission_resolved",
+            permissionId: message.permissionId,
+            behavior: "deny",
+            reason: "Permission request no longer pending"
+          });
+        }
+        return;
+      }
+
+      const { prompt, sessionId: incomingSessionId, options: sessionConfig = {}, workspace } = message;
+      const turnRequestId = message.requestId || crypto.randomUUID();
+      // Reusing a live turn's ID would take over its resume buffer and cancel target
+      if (turnOutputs.has(turnRequestId) || activeTurns.has(turnRequestId)) {
+        log.warn("Rejected prompt reusing a live turn's requestId", { requestId: turnRequestId });
+        sendFrame(ws, { ...errorFrame("duplicate_request", "requestId is already used by a running or resumable turn"), turnId: turnRequestId });
+        return;
+      }
+      const turnOutput = openTurnOutput(turnRequestId, message.accountId ?? null, ws);
+      output = turnOutput;
+      turnSpan = tracer.startSpan("container.turn", { parent: message.traceparent, kind: "server" }).setAttributes({
+        "request.id": turnRequestId,
+        "session.id": incomingSessionId ?? undefined
+      });
+      log = wsLog.child({ requestId: turnRequestId, sessionId: incomingSessionId ?? undefined, traceId: turnSpan.traceId });
 
       if (!prompt) {
-        ws.send(JSON.stringify({ error: "No prompt provided" }));
+        turnOutput.send(errorFrame("no_prompt", "No prompt provided"));
+        return;
+      }
+      if (draining) {
+        outcome = "drained";
+        log.info("Refused prompt while draining", { component: "shutdown" });
+        turnOutput.send(drainingError("Container is shutting down"));
         return;
       }
 
-      console.log("[WebSocket] Received prompt:", prompt);
-      console.log("[WebSocket] Prompt type:", typeof prompt);
-      console.log("[WebSocket] Prompt length:", prompt?.length);
-      console.log("[WebSocket] Full message:", JSON.stringify(message));
+      // The logger redacts the prompt, system prompt and MCP server headers unless LOG_PROMPTS is set
+      log.info("Received prompt", {
+        prompt,
+        options: sessionConfig,
+        workspace,
+        attachments: message.attachments?.length ?? 0,
+        allowedTools: message.allowedTools?.length ?? 0
+      });
 
-      ws.send(JSON.stringify({ type: "metadata", message: `Prompt received` }));
+      if (sessionConfig.cwd && !existsSync(sessionConfig.cwd)) {
+        turnOutput.send(errorFrame("invalid_options", `Working directory does not exist: ${sessionConfig.cwd}`));
+        return;
+      }
+
+      turnOutput.send({ type: "metadata", message: `Prompt received`, requestId: turnRequestId });
 
-      const queryStart = Date.now();
+      queryStart = Date.now();
+      const turnStart = queryStart;
 
-      // Get session from pool
-      assignedSession = await getSession(incomingSessionId);
+      warmConfigs.set(configFingerprint(sessionConfig), { config: sessionConfig, lastRequested: Date.now() });
 
-      if (!assignedSession) {
-        ws.send(JSON.stringify({ error: "Failed to get session" }));
+      // Wait behind the conversation's earlier turns, then take its session
+      const dequeue = new AbortController();
+      queuedTurns.set(turnRequestId, dequeue);
+      try {
+        lease = await tracer.trace(turnSpan, "pool.acquire", async (span) => {
+          const acquired = await sessionManager.acquire(incomingSessionId ?? undefined, sessionConfig, {
+            signal: dequeue.signal,
+            onQueued: (position) => {
+              span.addEvent("queued", { position });
+              turnOutput.send({ type: "queued", requestId: turnRequestId, position });
+            }
+          });
+          span.setAttributes({ "session.source": acquired?.source ?? "unavailable", "pool.size": sessionManager.size });
+          return acquired;
+        });
+      } catch (error) {
+        if (error instanceof SessionBusyError) {
+          outcome = "busy";
+          log.warn("Session busy, turn refused", { error: error.message });
+          turnOutput.send({ ...errorFrame("session_busy", error.message), retryAfter: SESSION_BUSY_RETRY_AFTER });
+          return;
+        }
+        if (dequeue.signal.aborted && draining) {
+          outcome = "drained";
+          turnOutput.send(drainingError("Container is shutting down"));
+          return;
+        }
+        if (dequeue.signal.aborted) {
+          outcome = "cancelled";
+          log.info("Queued turn cancelled", { component: "cancel" });
+          turnOutput.send({ type: "complete", response: "", claudeSessionId: incomingSessionId ?? "", cancelled: true });
+          return;
+        }
+        throw error;
+      } finally {
+        queuedTurns.delete(turnRequestId);
+      }
+      metrics.sessionRequests.inc({ source: lease?.source ?? "unavailable" });
+      if (lease) recordPoolDemand(lease.source, configFingerprint(sessionConfig));
+
+      if (!lease) {
+        turnOutput.send(errorFrame("session_unavailable", "Failed to get session"));
         return;
       }
+      const assignedSession = lease.pooled;
+
+      const turn: ActiveTurn = {
+        requestId: turnRequestId,
+        pooled: assignedSession,
+        output: turnOutput,
+        allowedTools: new Set(message.allowedTools ?? []),
+        cancelled: false,
+        startedAt: Date.now(),
+        log
+      };
+      requestId = turnRequestId;
+      activeTurns.set(turnRequestId, turn);
 
       // Get a fresh stream for this request BEFORE sending
       const stream = assignedSession.session.stream();
 
       // Send the message
-      await assignedSession.session.send(prompt);
+      assignedSession.session.send(withWorkspaceContext(prompt, workspace, message.attachments));
 
       let fullResponse = "";
       let realSessionId = assignedSession.sessionId;
+      let usage: TurnUsage | undefined;
+      let firstToken = true;
+      // One span per SDK message, covering the wait for it; tool spans run from tool_use to tool_result
+      let messageSpan = turnSpan.startChild("sdk.message");
+      const toolSpans = new Map<string, Span>();
 
-      // Stream response
-      for await (const msg of stream) {
-        // Capture the real session ID from the init message and re-key the pool
-        if (msg.type === "system" && msg.subtype === "init") {
-          realSessionId = (msg as any).session_id;
-          updateSessionKey(assignedSession, realSessionId);
-
-          // Send session ID to client
-          ws.send(JSON.stringify({
-            type: "session_created",
-            claudeSessionId: realSessionId
-          }));
-        }
+      try {
+        // Stream response
+        for await (const msg of stream) {
+          // Capture the real session ID from the init message and re-key the pool
+          if (msg.type === "system" && msg.subtype === "init") {
+            recordMcpStatuses(msg.mcp_servers);
+            realSessionId = msg.session_id;
+            turn.log = log = log.child({ sessionId: realSessionId });
+            sessionManager.bind(lease, realSessionId);
+            linkWorkspace(workspace, realSessionId);
+
+            // Send session ID to client
+            turnOutput.send({
+              type: "session_created",
+              claudeSessionId: realSessionId
+            });
+          }
 
-        // Stream message to client
-        ws.send(JSON.stringify({
-          type: "message",
-          messageType: msg.type,
-          data: msg
-        }));
-
-        // Collect text response
-        if (msg.type === "assistant") {
-          const assistantMsg = msg as any;
-          if (assistantMsg.message?.content) {
-            for (const block of assistantMsg.message.content) {
+          messageSpan.setAttributes({
+            "sdk.message.type": msg.type,
+            "sdk.message.subtype": "subtype" in msg ? String(msg.subtype) : undefined
+          });
+          messageSpan.end();
+          messageSpan = turnSpan.startChild("sdk.message");
+
+          if (msg.type === "user" && Array.isArray(msg.message.content)) {
+            for (const block of msg.message.content) {
+              if (block.type !== "tool_result") continue;
+              const toolSpan = toolSpans.get(block.tool_use_id);
+              if (!toolSpan) continue;
+              if (block.is_error) toolSpan.recordError("Tool returned an error");
+              toolSpan.end();
+              toolSpans.delete(block.tool_use_id);
+            }
+          }
+
+          // Stream message to client
+          turnOutput.send({
+            type: "message",
+            messageType: msg.type,
+            data: msg as SdkMessageData
+          });
+
+          // Collect text response and surface skill invocations
+          if (msg.type === "assistant") {
+            for (const block of msg.message.content) {
               if (block.type === "text") {
+                if (firstToken) {
+                  firstToken = false;
+                  metrics.timeToFirstToken.observe((Date.now() - turnStart) / 1000);
+                }
                 fullResponse += block.text;
-                ws.send(JSON.stringify({
+                turnOutput.send({
                   type: "text_chunk",
                   content: block.text
-                }));
+                });
+              }
+              if (block.type === "tool_use") {
+                toolSpans.set(block.id, turnSpan.startChild(`tool ${block.name}`).setAttributes({ "tool.name": block.name }));
+              }
+              if (block.type === "tool_use" && block.name === "Skill") {
+                const { skill, args } = block.input as { skill?: string; args?: string };
+                turnOutput.send({
+                  type: "skill_invocation",
+                  command: [skill, args].filter(Boolean).join(" ")
+                });
               }
             }
           }
-        }
 
-        // Log performance
-        if (msg.type === "result") {
-          const totalTime = Date.now() - queryStart;
-          console.log(`[Performance] Total time: ${totalTime}ms (session ${realSessionId.substring(0, 8)})`);
-          break;
+          // Log performance and report usage with the complete frame
+          if (msg.type === "result") {
+            const totalTime = Date.now() - turnStart;
+            usage = {
+              inputTokens: msg.usage.input_tokens,
+              outputTokens: msg.usage.output_tokens,
+              cacheReadInputTokens: msg.usage.cache_read_input_tokens,
+              cacheCreationInputTokens: msg.usage.cache_creation_input_tokens,
+              costUsd: msg.total_cost_usd,
+              durationMs: msg.duration_ms,
+              numTurns: msg.num_turns
+            };
+            log.info("Turn finished", { totalTimeMs: totalTime, usage });
+            break;
+          }
+        }
+      } catch (error) {
+        // A force-closed session aborts the stream; report that as a cancelled turn
+        if (!turn.cancelled) throw error;
+      } finally {
+        clearTimeout(turn.forceCloseTimer);
+        // Tools still running when the turn ended (e.g. cancelled) are closed with it
+        for (const toolSpan of toolSpans.values()) {
+          toolSpan.setAttributes({ "tool.unfinished": true });
+          toolSpan.end();
         }
       }
 
+      // Cut short by shutdown: the client should retry the prompt on a new container
+      if (turn.drained) {
+        outcome = "drained";
+        turnSpan.setAttributes({ "session.id": realSessionId });
+        log.warn("Turn interrupted by shutdown", { component: "shutdown", afterMs: Date.now() - turnStart });
+        turnOutput.send(drainingError("Container stopped before the turn finished"));
+        return;
+      }
+
       // Send completion
-      ws.send(JSON.stringify({
+      turnOutput.send({
         type: "complete",
         response: fullResponse,
-        claudeSessionId: realSessionId
-      }));
+        claudeSessionId: realSessionId,
+        ...(turn.cancelled && { cancelled: true }),
+        ...(usage && { usage })
+      });
+
+      outcome = turn.cancelled ? "cancelled" : "completed";
+      turnSpan.setAttributes({ "session.id": realSessionId, "turn.cancelled": turn.cancelled });
+      if (turn.cancelled) {
+        log.info("Turn cancelled", { component: "cancel", afterMs: Date.now() - turnStart });
+      }
 
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error);
-      console.error("[WebSocket Error]", errorMessage);
-      ws.send(JSON.stringify({ error: errorMessage }));
+      log.error("Turn failed", { error: errorMessage });
+      metrics.errors.inc({ type: "turn" });
+      turnSpan?.recordError(error);
+      if (output) output.send(errorFrame("internal_error", errorMessage));
+      else sendFrame(ws, errorFrame("internal_error", errorMessage));
     } finally {
-      // Release session back to pool
-      if (assignedSession) {
-        releaseSession(assignedSession);
+      if (output) finishTurnOutput(output);
+      if (queryStart !== null) {
+        metrics.turnDuration.observe((Date.now() - queryStart) / 1000, { outcome });
+      }
+      if (turnSpan) {
+        turnSpan.setAttributes({ "turn.outcome": outcome });
+        turnSpan.end();
+        tracer.flush().catch((error) => log.warn("Trace export failed", { component: "tracing", error }));
+      }
+      if (requestId) {
+        const turn = activeTurns.get(requestId);
+        for (const [permissionId, pending] of pendingPermissions) {
+          if (pending.turn === turn) {
+            resolvePermission(permissionId, false, "Turn ended");
+          }
+        }
+        activeTurns.delete(requestId);
+      }
+
+      // Hand the session back; the conversation's next queued turn starts on it
+      if (lease) {
+        sessionManager.release(lease);
       }
     }
   });
 
   ws.on("close", () => {
-    console.log("[WebSocket] Client disconnected");
+    wsLog.info("Client disconnected");
+    // Turns keep running for RESUME_WINDOW in case the client reconnects; then they are cancelled
+    for (const output of turnOutputs.values()) {
+      if (!output.isAttachedTo(ws)) continue;
+      output.detach(RESUME_WINDOW, () => {
+        wsLog.info("Turn not resumed, cancelling", { requestId: output.requestId });
+        void cancelTurn(output.requestId);
+      });
+    }
   });
 
   ws.on("error", (error) => {
-    console.error("[WebSocket Error]", error.message);
+    wsLog.error("Socket error", { error: error.message });
+    metrics.errors.inc({ type: "socket" });
   });
 });
 
+// Resolves true once no turn is running, or false after `timeoutMs`
+function waitForTurns(timeoutMs: number): Promise<boolean> {
+  const deadline = Date.now() + timeoutMs;
+  return new Promise((resolve) => {
+    const check = () => {
+      if (activeTurns.size === 0) return resolve(true);
+      if (Date.now() >= deadline) return resolve(false);
+      setTimeout(check, 250);
+    };
+    check();
+  });
+}
+
+// Cloudflare sends SIGTERM before stopping or sleeping the container. Stop taking prompts, tell
+// every client, give running turns SHUTDOWN_GRACE to finish (then interrupt them), close all
+// sessions and export pending spans before exiting.
+async function shutdown(signal: string) {
+  if (draining) return;
+  draining = true;
+  serverReady = false;
+  shutdownLog.info("Draining", { signal, activeTurns: activeTurns.size, queuedTurns: queuedTurns.size, graceMs: SHUTDOWN_GRACE });
+
+  for (const client of wss.clients) {
+    if (client.readyState === client.OPEN) sendFrame(client, { type: "draining", graceMs: SHUTDOWN_GRACE });
+  }
+  // Queued turns would only start after the grace period; refuse them now
+  for (const queued of queuedTurns.values()) queued.abort();
+
+  if (!(await waitForTurns(SHUTDOWN_GRACE))) {
+    shutdownLog.warn("Grace period over, interrupting turns", { activeTurns: activeTurns.size });
+    for (const turn of activeTurns.values()) {
+      turn.drained = true;
+      void cancelTurn(turn.requestId);
+    }
+    await waitForTurns(CANCEL_GRACE + 1000);
+  }
+
+  sessionManager.closeAll();
+  for (const client of wss.clients) client.close(1001, "Container shutting down");
+  await tracer.flush().catch((error) => shutdownLog.warn("Trace export failed", { component: "tracing", error }));
+  server.close();
+  shutdownLog.info("Shutdown complete", { uptimeMs: Date.now() - startTime });
+  process.exit(0);
+}
+
+process.on("SIGTERM", () => void shutdown("SIGTERM"));
+process.on("SIGINT", () => void shutdown("SIGINT"));
+
 if (!process.env.ANTHROPIC_API_KEY) {
-  console.error("[FATAL] ANTHROPIC_API_KEY environment variable not set");
+  startupLog.error("ANTHROPIC_API_KEY environment variable not set");
   process.exit(1);
 }
 
-console.log(`[Startup] Starting server on port ${PORT} (+${Date.now() - startTime}ms)`);
+startupLog.info("Starting server", { port: PORT, sinceStartMs: Date.now() - startTime });
 
 server.listen(PORT, () => {
   serverReady = true;
   const startupTime = Date.now() - startTime;
-  console.log(`[Startup] ✓ Server ready in ${startupTime}ms`);
-  console.log(`Claude Agent SDK container listening on port ${PORT}`);
-  console.log(`Session pooling enabled: pre-warming ${POOL_SIZE} sessions`);
+  startupLog.info("Server ready", { port: PORT, startupMs: startupTime, poolSize: POOL_SIZE });
 
-  // Pre-warm initial pool after a short delay
+  // Pre-warm the initial pool after a short delay, then let the controller keep it sized
   setTimeout(() => {
-    console.log(`[SessionPool] Starting initial pool warmup...`);
-    for (let i = 0; i < POOL_SIZE; i++) {
-      prewarmSession(SESSION_OPTIONS).then(pooled => {
-        if (pooled) {
-          sessionPool.set(pooled.sessionId, pooled);
-          console.log(`[SessionPool] Added session ${pooled.sessionId.substring(0, 8)} to pool (${sessionPool.size}/${POOL_SIZE})`);
-        }
-      });
-    }
+    poolLog.info("Starting initial pool warmup", { target: poolControl.target, min: POOL_MIN_SIZE, max: POOL_MAX_SIZE });
+    adjustPool();
+    setInterval(adjustPool, POOL_CONTROL_INTERVAL);
   }, PREWARM_DELAY);
 
   // Keepalive
   setInterval(() => {
     const uptime = Math.floor((Date.now() - startTime) / 1000);
     if (uptime % 60 === 0) {
-      const available = Array.from(sessionPool.values()).filter(p => !p.inUse).length;
-      console.log(`[Keepalive] Uptime: ${uptime}s, Pool: ${available}/${sessionPool.size} available`);
+      logger.info("Keepalive", {
+        component: "keepalive",
+        uptimeSeconds: uptime,
+        available: sessionManager.available,
+        poolSize: sessionManager.size
+      });
     }
   }, 10000);
 });
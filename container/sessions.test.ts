@@ -0,0 +1,214 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import type { Logger } from "../shared/log.js";
+import type { SessionConfig } from "../shared/protocol.js";
+import { type AgentSession, type PooledSession, SessionBusyError, SessionManager, type SessionManagerOptions } from "./sessions.js";
+
+// Stands in for the SDK: never streams anything, only records whether it was closed
+class FakeSession implements AgentSession {
+  closed = false;
+  send() {}
+  async *stream() {}
+  async ready() {}
+  async interrupt() {}
+  async mcpServerStatus() {
+    return [];
+  }
+  close() {
+    this.closed = true;
+  }
+}
+
+const silentLog: Logger = {
+  debug() {},
+  info() {},
+  warn() {},
+  error() {},
+  child: () => silentLog
+};
+
+const config: SessionConfig = {};
+
+let nextId = 0;
+const fakePooled = (fingerprint = "default"): PooledSession => ({
+  session: new FakeSession(),
+  sessionId: `prewarm-${++nextId}`,
+  fingerprint,
+  createdAt: Date.now(),
+  lastUsed: Date.now(),
+  inUse: false,
+  bound: false
+});
+
+// Every conversation has a transcript, so acquire() resumes it on a new fake session
+const createManager = (overrides: Partial<SessionManagerOptions> = {}) =>
+  new SessionManager({
+    createSession: async () => fakePooled(),
+    prepareResume: () => true,
+    fingerprint: () => "default",
+    maxQueuedTurns: 5,
+    log: silentLog,
+    ...overrides
+  });
+
+// Lets pending acquire() continuations run
+const settle = () => new Promise((resolve) => setImmediate(resolve));
+
+test("turns on one conversation start in arrival order", async () => {
+  const manager = createManager();
+  const first = await manager.acquire("conv-1", config);
+  assert.ok(first);
+
+  const started: string[] = [];
+  const positions: Record<string, number[]> = { second: [], third: [] };
+  const second = manager
+    .acquire("conv-1", config, { onQueued: (position) => positions.second.push(position) })
+    .then((lease) => (started.push("second"), lease));
+  const third = manager
+    .acquire("conv-1", config, { onQueued: (position) => positions.third.push(position) })
+    .then((lease) => (started.push("third"), lease));
+  await settle();
+  assert.deepEqual(started, []);
+  assert.equal(manager.queuedTurns(), 2);
+
+  manager.release(first);
+  const secondLease = await second;
+  await settle();
+  assert.deepEqual(started, ["second"]);
+  assert.equal(secondLease?.source, "reused");
+  assert.equal(secondLease?.pooled, first.pooled);
+
+  manager.release(secondLease!);
+  await third;
+  assert.deepEqual(started, ["second", "third"]);
+  assert.deepEqual(positions, { second: [1], third: [2, 1] });
+});
+
+test("refuses turns with session_busy once maxQueuedTurns are waiting", async () => {
+  const manager = createManager({ maxQueuedTurns: 1 });
+  const first = await manager.acquire("conv-1", config);
+  const waiting = manager.acquire("conv-1", config);
+
+  await assert.rejects(manager.acquire("conv-1", config), SessionBusyError);
+  assert.equal(manager.queuedTurns(), 1);
+
+  // Other conversations aren't affected
+  const other = await manager.acquire("conv-2", config);
+  assert.ok(other);
+
+  manager.release(first!);
+  assert.ok(await waiting);
+});
+
+test("binds a new conversation's session under the SDK's session ID", async () => {
+  const manager = createManager();
+  const prewarmed = fakePooled();
+  manager.addPrewarmed(prewarmed);
+
+  const lease = await manager.acquire(undefined, config);
+  assert.equal(lease?.source, "pool_hit");
+  assert.equal(lease?.conversationId, null);
+
+  manager.bind(lease!, "sdk-1");
+  assert.equal(prewarmed.sessionId, "sdk-1");
+  assert.equal(prewarmed.bound, true);
+  assert.equal(lease!.conversationId, "sdk-1");
+  assert.ok(manager.has("sdk-1"));
+
+  // The next turn on the new ID waits for the first, then gets the same session
+  let started = false;
+  const next = manager.acquire("sdk-1", config).then((nextLease) => ((started = true), nextLease));
+  await settle();
+  assert.equal(started, false);
+
+  manager.release(lease!);
+  const nextLease = await next;
+  assert.equal(nextLease?.source, "reused");
+  assert.equal(nextLease?.pooled, prewarmed);
+});
+
+test("re-keys the queue when a resumed conversation gets a new SDK session ID", async () => {
+  const manager = createManager();
+  const lease = await manager.acquire("old-id", config);
+  const positions: number[] = [];
+  const queued = manager.acquire("old-id", config, { onQueued: (position) => positions.push(position) });
+  await settle();
+
+  manager.bind(lease!, "new-id");
+  assert.equal(lease!.conversationId, "new-id");
+  assert.ok(manager.has("new-id"));
+  assert.ok(!manager.has("old-id"));
+
+  // Turns on either ID still wait for the running one instead of resuming the old transcript
+  let started = false;
+  const late = manager.acquire("old-id", config).then((nextLease) => ((started = true), nextLease));
+  const onNew = manager.acquire("new-id", config);
+  await settle();
+  assert.equal(started, false);
+  assert.equal(manager.queuedTurns(), 3);
+
+  // The waiter queued before the re-key runs next, on the new ID's session
+  manager.release(lease!);
+  const queuedLease = await queued;
+  assert.equal(queuedLease?.source, "reused");
+  assert.equal(queuedLease?.conversationId, "new-id");
+  assert.equal(queuedLease?.pooled, lease!.pooled);
+  assert.deepEqual(positions, [1]);
+  await settle();
+  assert.equal(started, false);
+
+  manager.release(queuedLease!);
+  const lateLease = await late;
+  assert.equal(lateLease?.source, "reused");
+  assert.equal(lateLease?.conversationId, "new-id");
+  manager.release(lateLease!);
+  assert.equal((await onNew)?.pooled, lease!.pooled);
+});
+
+test("keeps pre-warmed sessions apart from bound ones", async () => {
+  const manager = createManager();
+  const prewarmed = fakePooled();
+  manager.addPrewarmed(prewarmed);
+
+  const lease = await manager.acquire(undefined, config);
+  manager.bind(lease!, "sdk-1");
+  manager.release(lease!);
+
+  // A released bound session stays with its conversation and isn't offered to new ones
+  assert.equal(manager.availablePrewarmed("default"), 0);
+  const other = await manager.acquire(undefined, config);
+  assert.equal(other?.source, "on_demand");
+  assert.notEqual(other?.pooled, prewarmed);
+
+  // Only sessions that were never bound are trimmed as pre-warmed surplus
+  manager.addPrewarmed(fakePooled());
+  assert.equal(manager.trimPrewarmed("default", 0), 1);
+  assert.ok(manager.has("sdk-1"));
+  assert.equal((prewarmed.session as FakeSession).closed, false);
+
+  // A session that was used but never bound is discarded rather than returned to the pool
+  manager.release(other!);
+  assert.equal((other!.pooled.session as FakeSession).closed, true);
+  assert.equal(manager.availablePrewarmed("default"), 0);
+});
+
+test("removes an aborted waiter from the queue", async () => {
+  const manager = createManager();
+  const first = await manager.acquire("conv-1", config);
+
+  const controller = new AbortController();
+  const aborted = manager.acquire("conv-1", config, { signal: controller.signal });
+  const positions: number[] = [];
+  const last = manager.acquire("conv-1", config, { onQueued: (position) => positions.push(position) });
+  await settle();
+  assert.equal(manager.queuedTurns(), 2);
+
+  controller.abort(new Error("client went away"));
+  await assert.rejects(aborted, /client went away/);
+  assert.equal(manager.queuedTurns(), 1);
+  assert.deepEqual(positions, [2, 1]);
+
+  manager.release(first!);
+  assert.ok(await last);
+  assert.equal(manager.queuedTurns(), 0);
+});
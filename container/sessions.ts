@@ -0,0 +1,383 @@
+// Session manager for the container's Agent SDK sessions. Pre-warmed sessions wait in a pool keyed
+// by config fingerprint until a new conversation takes one; from then on the session is bound to
+// that conversation's SDK session ID and is never handed to anyone else. Turns on one conversation
+// run one at a time, in arrival order. The SDK is only reached through the injected factory, so the
+// manager can be driven with fake sessions.
+
+import type { McpServerStatus as SdkMcpServerStatus, SDKMessage } from "@anthropic-ai/claude-agent-sdk";
+import type { Logger } from "../shared/log.js";
+import type { SessionConfig } from "../shared/protocol.js";
+
+// Multi-turn session built on query() with streaming input, so a running turn can be interrupted
+export interface AgentSession {
+  send(prompt: string): void;
+  stream(): AsyncGenerator<SDKMessage, void>;
+  // Resolves once the SDK has initialized; never settles if the SDK process dies first
+  ready(): Promise<void>;
+  interrupt(): Promise<void>;
+  mcpServerStatus(): Promise<SdkMcpServerStatus[]>;
+  close(): void;
+}
+
+export interface PooledSession {
+  session: AgentSession;
+  // Temporary `prewarm-…` ID until the SDK reports the real one
+  sessionId: string;
+  // Identifies the SessionConfig the session was created with; only matching requests may use it
+  fingerprint: string;
+  createdAt: number;
+  lastUsed: number;
+  inUse: boolean;
+  // Set once the session belongs to a conversation; it never returns to the pre-warmed pool
+  bound: boolean;
+  // Set when the session can't be reused (e.g. force-closed after a stuck interrupt, or evicted)
+  broken?: boolean;
+}
+
+// How acquire() found the session, for the pool metrics
+export type SessionSource = "reused" | "pool_hit" | "resumed" | "on_demand";
+
+export type DiscardReason = "idle" | "discarded" | "scaled_down" | "shutdown";
+
+// One turn's hold on a session; hand it back with release()
+export interface SessionLease {
+  pooled: PooledSession;
+  source: SessionSource;
+  // Conversation whose queue this turn holds; null until a new conversation gets its SDK ID
+  conversationId: string | null;
+}
+
+export interface SessionManagerOptions {
+  // Creates a session for `config`, resuming the conversation `resume` when given; null on failure
+  createSession(config: SessionConfig, resume?: string): Promise<PooledSession | null>;
+  // Whether `sessionId` has a transcript to resume from (making it available under config.cwd)
+  prepareResume(sessionId: string, config: SessionConfig): boolean;
+  fingerprint(config: SessionConfig): string;
+  // Turns that may wait behind a conversation's running turn before new ones are refused
+  maxQueuedTurns: number;
+  log: Logger;
+  // Called for every session closed, with the error close() threw if any
+  onDiscard?(reason: DiscardReason, closeError?: unknown): void;
+}
+
+export interface AcquireOptions {
+  // Called with the turn's place in the conversation's queue (1 = next) while it waits
+  onQueued?(position: number): void;
+  // Aborting removes a waiting turn from the queue; acquire() then rejects with the signal's reason
+  signal?: AbortSignal;
+}
+
+const DISCARD_MESSAGES: Record<DiscardReason, string> = {
+  idle: "Cleaned up idle session",
+  discarded: "Discarded session",
+  scaled_down: "Closed surplus pre-warmed session",
+  shutdown: "Closed session for shutdown"
+};
+
+export class SessionBusyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SessionBusyError";
+  }
+}
+
+interface QueueWaiter {
+  // Called with the ID the conversation goes by when the turn's wait is over
+  resolve: (conversationId: string) => void;
+  onQueued?: (position: number) => void;
+}
+
+// Turns waiting for one conversation; the queue exists while a turn holds the conversation
+interface ConversationQueue {
+  conversationId: string;
+  waiters: QueueWaiter[];
+}
+
+export class SessionManager {
+  private readonly options: SessionManagerOptions;
+  // Not yet used by any conversation, keyed by temporary ID
+  private readonly prewarmed = new Map<string, PooledSession>();
+  // Bound to a conversation, keyed by SDK session ID
+  private readonly bound = new Map<string, PooledSession>();
+  // Handed to a new conversation that hasn't reported its SDK session ID yet
+  private readonly binding = new Set<PooledSession>();
+  private readonly queues = new Map<string, ConversationQueue>();
+  // Conversations that went on under a new SDK session ID because theirs couldn't be resumed
+  private readonly renamed = new Map<string, string>();
+
+  constructor(options: SessionManagerOptions) {
+    this.options = options;
+  }
+
+  addPrewarmed(pooled: PooledSession) {
+    this.prewarmed.set(pooled.sessionId, pooled);
+  }
+
+  // Every session the manager holds, pre-warmed ones first
+  list(): PooledSession[] {
+    return [...this.prewarmed.values(), ...this.binding, ...this.bound.values()];
+  }
+
+  get size() {
+    return this.prewarmed.size + this.binding.size + this.bound.size;
+  }
+
+  // Sessions a turn could start on right now
+  get available() {
+    return this.list().filter((p) => !p.inUse && !p.broken).length;
+  }
+
+  availablePrewarmed(fingerprint: string) {
+    return Array.from(this.prewarmed.values()).filter((p) => p.fingerprint === fingerprint).length;
+  }
+
+  // Closes the oldest pre-warmed sessions for `fingerprint` beyond `keep`; returns how many were closed
+  trimPrewarmed(fingerprint: string, keep: number): number {
+    const surplus = Array.from(this.prewarmed.values())
+      .filter((p) => p.fingerprint === fingerprint)
+      .sort((a, b) => a.createdAt - b.createdAt)
+      .slice(0, Math.max(0, this.availablePrewarmed(fingerprint) - keep));
+    for (const pooled of surplus) this.discard(pooled, "scaled_down");
+    return surplus.length;
+  }
+
+  // Whether a conversation has a live session in this container
+  has(sessionId: string) {
+    return this.bound.has(sessionId);
+  }
+
+  find(sessionId: string): PooledSession | undefined {
+    return this.list().find((p) => p.sessionId === sessionId);
+  }
+
+  // Turns waiting behind the running one, per conversation
+  queuedTurns() {
+    let count = 0;
+    for (const queue of this.queues.values()) count += queue.waiters.length;
+    return count;
+  }
+
+  // Waits for the conversation's earlier turns, then hands out its session: the bound one when the
+  // config still matches, a resumed one when only a transcript is left, otherwise a pre-warmed or
+  // new session. Returns null when no session could be created. Throws SessionBusyError when the
+  // conversation already has maxQueuedTurns waiting.
+  async acquire(
+    conversationId: string | undefined,
+    config: SessionConfig,
+    options: AcquireOptions = {}
+  ): Promise<SessionLease | null> {
+    if (conversationId) {
+      conversationId = await this.lock(this.currentId(conversationId), options);
+    }
+
+    try {
+      const lease = await this.checkout(conversationId, config);
+      if (!lease && conversationId) this.unlock(conversationId);
+      return lease;
+    } catch (error) {
+      if (conversationId) this.unlock(conversationId);
+      throw error;
+    }
+  }
+
+  // The SDK reported the session's real ID: bind it to that conversation and hold its queue
+  bind(lease: SessionLease, sessionId: string) {
+    const { pooled } = lease;
+    if (pooled.bound && pooled.sessionId === sessionId) return;
+
+    this.binding.delete(pooled);
+    this.bound.delete(pooled.sessionId);
+    pooled.sessionId = sessionId;
+    pooled.bound = true;
+    this.bound.set(sessionId, pooled);
+
+    if (lease.conversationId !== sessionId) {
+      // A fresh session replaced one that couldn't be resumed. The turns waiting on the old ID move to
+      // the new one, and later turns on the old ID follow, so none of them resumes the old transcript.
+      const previous = lease.conversationId;
+      const queue = (previous && this.queues.get(previous)) || { conversationId: sessionId, waiters: [] };
+      if (previous) {
+        this.queues.delete(previous);
+        this.renamed.set(previous, sessionId);
+      }
+      queue.conversationId = sessionId;
+      this.queues.set(sessionId, queue);
+      lease.conversationId = sessionId;
+    }
+  }
+
+  // The turn ended: the session stays with its conversation, or is discarded when it is broken or
+  // never got bound (a used session must not look pre-warmed). The next queued turn then starts.
+  release(lease: SessionLease) {
+    const { pooled } = lease;
+    pooled.inUse = false;
+    pooled.lastUsed = Date.now();
+    if (pooled.broken || !pooled.bound) {
+      this.discard(pooled);
+    } else {
+      this.options.log.info("Released session", { sessionId: pooled.sessionId });
+    }
+    if (lease.conversationId) this.unlock(lease.conversationId);
+  }
+
+  // Closes a session and forgets it; one that is running a turn is only marked and goes on release
+  discard(pooled: PooledSession, reason: DiscardReason = "discarded") {
+    if (pooled.inUse) {
+      pooled.broken = true;
+      return;
+    }
+    let closeError: unknown;
+    try {
+      pooled.session.close();
+    } catch (error) {
+      closeError = error;
+      this.options.log.error("Error closing session", { sessionId: pooled.sessionId, error });
+    }
+    this.prewarmed.delete(pooled.sessionId);
+    this.binding.delete(pooled);
+    if (this.bound.get(pooled.sessionId) === pooled) {
+      this.bound.delete(pooled.sessionId);
+    }
+    this.options.log.info(DISCARD_MESSAGES[reason], { sessionId: pooled.sessionId });
+    this.options.onDiscard?.(reason, closeError);
+  }
+
+  // Closes every session, including ones still running a turn, when the container shuts down
+  closeAll() {
+    for (const pooled of this.list()) {
+      pooled.inUse = false;
+      this.discard(pooled, "shutdown");
+    }
+    this.queues.clear();
+    this.renamed.clear();
+  }
+
+  // Closes sessions unused for longer than `timeoutMs`; returns how many were removed
+  removeIdle(timeoutMs: number): number {
+    const now = Date.now();
+    let removed = 0;
+    for (const pooled of this.list()) {
+      if (!pooled.inUse && now - pooled.lastUsed > timeoutMs) {
+        this.discard(pooled, "idle");
+        removed++;
+      }
+    }
+    return removed;
+  }
+
+  private async checkout(conversationId: string | undefined, config: SessionConfig): Promise<SessionLease | null> {
+    const { log } = this.options;
+    const fingerprint = this.options.fingerprint(config);
+
+    if (conversationId) {
+      const existing = this.bound.get(conversationId);
+      if (existing && existing.fingerprint === fingerprint && !existing.broken) {
+        return this.lease(existing, "reused", conversationId);
+      }
+      // Options changed mid-conversation: restart the session from its transcript with the new config
+      if (existing) {
+        log.info("Options changed, restarting session", { sessionId: conversationId });
+        this.discard(existing);
+      }
+
+      if (this.options.prepareResume(conversationId, config)) {
+        log.info("Resuming session from transcript", { sessionId: conversationId });
+        const resumed = await this.options.createSession(config, conversationId);
+        if (resumed) {
+          resumed.sessionId = conversationId;
+          resumed.bound = true;
+          this.bound.set(conversationId, resumed);
+          return this.lease(resumed, "resumed", conversationId);
+        }
+      } else {
+        log.warn("No transcript for session, starting a new one", { sessionId: conversationId });
+      }
+    }
+
+    for (const pooled of this.prewarmed.values()) {
+      if (pooled.fingerprint === fingerprint && !pooled.broken) {
+        this.prewarmed.delete(pooled.sessionId);
+        this.binding.add(pooled);
+        log.info("Assigned pre-warmed session", { sessionId: pooled.sessionId });
+        return this.lease(pooled, "pool_hit", conversationId ?? null);
+      }
+    }
+
+    log.info("No pre-warmed session available, creating one");
+    const created = await this.options.createSession(config);
+    if (!created) return null;
+    this.binding.add(created);
+    return this.lease(created, "on_demand", conversationId ?? null);
+  }
+
+  private lease(pooled: PooledSession, source: SessionSource, conversationId: string | null): SessionLease {
+    pooled.inUse = true;
+    pooled.lastUsed = Date.now();
+    return { pooled, source, conversationId };
+  }
+
+  // The ID a conversation goes by now, following any renames
+  private currentId(conversationId: string) {
+    let id = conversationId;
+    for (let next = this.renamed.get(id); next; next = this.renamed.get(id)) id = next;
+    return id;
+  }
+
+  // Resolves with the conversation's ID once the turn holds its queue; the ID changes when the
+  // conversation is renamed while the turn waits
+  private lock(conversationId: string, options: AcquireOptions): Promise<string> {
+    const queue = this.queues.get(conversationId);
+    if (!queue) {
+      this.queues.set(conversationId, { conversationId, waiters: [] });
+      return Promise.resolve(conversationId);
+    }
+    if (queue.waiters.length >= this.options.maxQueuedTurns) {
+      return Promise.reject(
+        new SessionBusyError(`Session is busy and already has ${queue.waiters.length} turn(s) waiting`)
+      );
+    }
+
+    return new Promise<string>((resolve, reject) => {
+      const { signal } = options;
+      const onAbort = () => {
+        const index = queue.waiters.indexOf(waiter);
+        if (index === -1) return;
+        queue.waiters.splice(index, 1);
+        this.notifyPositions(queue, index);
+        reject(signal?.reason);
+      };
+      const waiter: QueueWaiter = {
+        resolve: (id) => {
+          signal?.removeEventListener("abort", onAbort);
+          resolve(id);
+        },
+        onQueued: options.onQueued
+      };
+      if (signal?.aborted) {
+        reject(signal.reason);
+        return;
+      }
+      signal?.addEventListener("abort", onAbort, { once: true });
+      queue.waiters.push(waiter);
+      this.options.log.info("Turn queued behind running turn", { sessionId: conversationId, position: queue.waiters.length });
+      waiter.onQueued?.(queue.waiters.length);
+    });
+  }
+
+  private unlock(conversationId: string) {
+    const queue = this.queues.get(conversationId);
+    if (!queue) return;
+    const next = queue.waiters.shift();
+    if (!next) {
+      this.queues.delete(conversationId);
+      return;
+    }
+    this.notifyPositions(queue, 0);
+    next.resolve(queue.conversationId);
+  }
+
+  // Tell waiters from `from` on where they now stand
+  private notifyPositions(queue: ConversationQueue, from: number) {
+    queue.waiters.slice(from).forEach((waiter, i) => waiter.onQueued?.(from + i + 1));
+  }
+}
@@ -0,0 +1,29 @@
+// Contract for modules in tools/. Each module exports `name`, `description`, `schema` and `handler`
+// (or a default export with the same fields); server.ts serves them from an in-process MCP server.
+import type { z, ZodRawShape } from "zod";
+
+// Input schema: a zod shape ({ city: z.string() }), a z.object(...) or a JSON Schema object
+export type ToolSchema = ZodRawShape | z.ZodObject | Record<string, unknown>;
+
+export interface ToolDefinition {
+  name: string;
+  description: string;
+  schema: ToolSchema;
+  // Strings are returned as text, anything else as JSON (and as structured content for objects)
+  handler(input: Record<string, unknown>, context: { signal?: AbortSignal }): unknown;
+  // Custom tools are trusted and run without a permission prompt unless this is set
+  requiresPermission?: boolean;
+}
+
+// Throw from a handler to return a structured error with a machine-readable code
+export class ToolError extends Error {
+  readonly code: string;
+  readonly details?: Record<string, unknown>;
+
+  constructor(code: string, message: string, details?: Record<string, unknown>) {
+    super(message);
+    this.name = "ToolError";
+    this.code = code;
+    this.details = details;
+  }
+}
@@ -0,0 +1,24 @@
+// Example custom tool: delete it or add your own modules next to it
+import { z } from "zod";
+import { ToolError } from "../tool.js";
+
+export const name = "current_time";
+
+export const description = "Current date and time, optionally in a given IANA time zone";
+
+export const schema = {
+  timeZone: z.string().optional().describe("IANA time zone, e.g. Europe/Paris (defaults to UTC)")
+};
+
+export async function handler({ timeZone = "UTC" }: { timeZone?: string }) {
+  const now = new Date();
+  try {
+    return {
+      iso: now.toISOString(),
+      timeZone,
+      local: now.toLocaleString("en-US", { timeZone, dateStyle: "full", timeStyle: "long" })
+    };
+  } catch {
+    throw new ToolError("invalid_time_zone", `Unknown time zone: ${timeZone}`, { timeZone });
+  }
+}
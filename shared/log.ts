@@ -0,0 +1,105 @@
+// Structured JSON logger shared by the Worker and the container. Each line is one JSON object
+// with `time`, `level`, `component` and `msg`, plus the correlation fields (requestId, accountId,
+// sessionId) of the logger's context. Prompts, responses and secrets are redacted by default.
+
+export type LogLevel = "debug" | "info" | "warn" | "error";
+
+export interface LogContext {
+  component?: string;
+  requestId?: string;
+  accountId?: string;
+  sessionId?: string;
+  [key: string]: unknown;
+}
+
+export interface Logger {
+  debug(msg: string, fields?: Record<string, unknown>): void;
+  info(msg: string, fields?: Record<string, unknown>): void;
+  warn(msg: string, fields?: Record<string, unknown>): void;
+  error(msg: string, fields?: Record<string, unknown>): void;
+  // Logger whose lines also carry `context`
+  child(context: LogContext): Logger;
+}
+
+export interface LogSettings {
+  level: LogLevel;
+  // Log prompt and response text instead of its length; never affects secrets
+  logPrompts: boolean;
+}
+
+const LEVELS: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+
+// Field names whose values are user content
+const CONTENT_KEYS = new Set(["prompt", "response", "content", "text", "systemPrompt", "input", "transcript"]);
+
+// Field names whose values are credentials, matched case-insensitively
+const SECRET_KEY_PATTERN = /api[-_]?key|authorization|token$|secret|password|cookie|^headers$|^envVars$/i;
+
+const API_KEY_VALUE_PATTERN = /sk-ant-[A-Za-z0-9_-]+/g;
+
+const MAX_DEPTH = 6;
+
+const settings: LogSettings = { level: "info", logPrompts: false };
+
+export const isLogLevel = (value: unknown): value is LogLevel =>
+  typeof value === "string" && Object.hasOwn(LEVELS, value);
+
+// Read LOG_LEVEL and LOG_PROMPTS from the Worker's bindings or the container's process.env
+export function configureLogging(level: string | undefined, logPrompts: string | undefined) {
+  settings.level = isLogLevel(level) ? level : "info";
+  settings.logPrompts = logPrompts === "true";
+}
+
+const scrubString = (value: string) => value.replace(API_KEY_VALUE_PATTERN, "sk-ant-[redacted]");
+
+function redact(key: string, value: unknown, depth: number): unknown {
+  if (value === undefined || value === null) return value;
+  if (SECRET_KEY_PATTERN.test(key)) return "[redacted]";
+  if (CONTENT_KEYS.has(key) && !settings.logPrompts) {
+    return typeof value === "string" ? `[redacted ${value.length} chars]` : "[redacted]";
+  }
+
+  if (value instanceof Error) {
+    return { name: value.name, message: scrubString(value.message) };
+  }
+  if (typeof value === "string") return scrubString(value);
+  if (typeof value !== "object") return value;
+  if (depth >= MAX_DEPTH) return "[truncated]";
+
+  if (Array.isArray(value)) {
+    return value.map((item) => redact("", item, depth + 1));
+  }
+  return Object.fromEntries(
+    Object.entries(value as Record<string, unknown>).map(([k, v]) => [k, redact(k, v, depth + 1)])
+  );
+}
+
+function write(level: LogLevel, context: LogContext, msg: string, fields?: Record<string, unknown>) {
+  if (LEVELS[level] < LEVELS[settings.level]) return;
+
+  const entry: Record<string, unknown> = { time: new Date().toISOString(), level, msg: scrubString(msg) };
+  for (const [key, value] of Object.entries({ ...context, ...fields })) {
+    const redacted = redact(key, value, 0);
+    if (redacted !== undefined) entry[key] = redacted;
+  }
+
+  let line: string;
+  try {
+    line = JSON.stringify(entry);
+  } catch {
+    line = JSON.stringify({ time: entry.time, level, msg: entry.msg, component: context.component, unserializable: true });
+  }
+  if (level === "error") console.error(line);
+  else if (level === "warn") console.warn(line);
+  else console.log(line);
+}
+
+export function createLogger(context: LogContext = {}): Logger {
+  return {
+    debug: (msg, fields) => write("debug", context, msg, fields),
+    info: (msg, fields) => write("info", context, msg, fields),
+    warn: (msg, fields) => write("warn", context, msg, fields),
+    error: (msg, fields) => write("error", context, msg, fields),
+    child: (extra) => createLogger({ ...context, ...extra }),
+  };
+}
@@ -0,0 +1,465 @@
+// Wire protocol shared by the container (server.ts), the Worker and the React app.
+// Every frame carries the protocol version in `v`; bump it on incompatible changes.
+
+export const PROTOCOL_VERSION = 1;
+
+// ---------------------------------------------------------------------------
+// Container → client frames
+// ---------------------------------------------------------------------------
+
+export interface ContentBlock {
+  type: string;
+  text?: string;
+  name?: string;
+  input?: Record<string, unknown>;
+  [key: string]: unknown;
+}
+
+// Raw Agent SDK message, relayed as-is; only the fields the UI reads are typed
+export interface SdkMessageData {
+  type: string;
+  message?: { content?: ContentBlock[] };
+  [key: string]: unknown;
+}
+
+export interface MetadataFrame {
+  type: "metadata";
+  message: string;
+  requestId: string;
+}
+
+export interface SessionCreatedFrame {
+  type: "session_created";
+  claudeSessionId: string;
+}
+
+export interface SdkMessageFrame {
+  type: "message";
+  messageType: string;
+  data: SdkMessageData;
+}
+
+// The prompt's conversation is running another turn; this one waits (position 1 = next).
+// Sent again each time it moves up the queue.
+export interface QueuedFrame {
+  type: "queued";
+  requestId: string;
+  position: number;
+}
+
+export interface TextChunkFrame {
+  type: "text_chunk";
+  content: string;
+}
+
+export interface SkillInvocationFrame {
+  type: "skill_invocation";
+  command: string;
+}
+
+export interface PermissionRequestFrame {
+  type: "permission_request";
+  requestId: string;
+  permissionId: string;
+  toolName: string;
+  input: Record<string, unknown>;
+  timeoutMs: number;
+}
+
+export interface PermissionResolvedFrame {
+  type: "permission_resolved";
+  requestId?: string;
+  permissionId: string;
+  behavior: "allow" | "deny";
+  reason: string;
+}
+
+export interface CancelAckFrame {
+  type: "cancel_ack";
+  requestId: string;
+  cancelled: boolean;
+}
+
+// Token usage and cost of one turn, taken from the SDK's result message
+export interface TurnUsage {
+  inputTokens: number;
+  outputTokens: number;
+  cacheReadInputTokens: number;
+  cacheCreationInputTokens: number;
+  costUsd: number;
+  durationMs: number;
+  numTurns: number;
+}
+
+// Sent to every connection when the container begins shutting down: new prompts are refused, and
+// running turns get `graceMs` to finish before they end with a `container_draining` error
+export interface DrainingFrame {
+  type: "draining";
+  graceMs: number;
+}
+
+// Sent by the Worker on /query while it reconnects to the container mid-turn; the turn then
+// continues where it left off
+export interface ReconnectingFrame {
+  type: "reconnecting";
+  attempt: number;
+  delayMs: number;
+}
+
+export interface CompleteFrame {
+  type: "complete";
+  response: string;
+  claudeSessionId: string;
+  cancelled?: boolean;
+  // Missing when the turn ended before the SDK reported a result
+  usage?: TurnUsage;
+}
+
+export type QuotaErrorCode = "rate_limited" | "concurrency_limited" | "token_budget_exceeded" | "cost_budget_exceeded";
+
+export type ErrorCode =
+  | ProtocolErrorCode
+  | QuotaErrorCode
+  | "no_prompt"
+  | "invalid_options"
+  | "session_unavailable"
+  // The conversation already has MAX_QUEUED_TURNS waiting; retry after `retryAfter` seconds
+  | "session_busy"
+  // The container is shutting down (or stopped mid-turn); retry after `retryAfter` seconds
+  | "container_draining"
+  // A `resume` named a turn the container no longer has, or whose missed frames were dropped
+  | "turn_not_found"
+  // A prompt reused the requestId of a turn that is still running or resumable
+  | "duplicate_request"
+  | "container_error"
+  | "timeout"
+  | "internal_error";
+
+export interface ErrorFrame {
+  type: "error";
+  code: ErrorCode;
+  error: string;
+  // Seconds until a quota, busy or draining rejection may succeed
+  retryAfter?: number;
+}
+
+// Frames of a turn carry its `turnId` (the prompt's requestId) and `seq` (1, 2, ...), their
+// position in the turn; see ResumeFrame. Frames the Worker adds itself have no `seq`.
+export type ServerFrame = (
+  | MetadataFrame
+  | SessionCreatedFrame
+  | SdkMessageFrame
+  | QueuedFrame
+  | TextChunkFrame
+  | SkillInvocationFrame
+  | PermissionRequestFrame
+  | PermissionResolvedFrame
+  | CancelAckFrame
+  | DrainingFrame
+  | ReconnectingFrame
+  | CompleteFrame
+  | ErrorFrame
+) & { turnId?: string; seq?: number };
+
+export type ServerFrameType = ServerFrame["type"];
+
+// ---------------------------------------------------------------------------
+// Client → container frames
+// ---------------------------------------------------------------------------
+
+// Remote MCP server an account registered through the Worker's /mcp-servers routes
+export interface McpServerDefinition {
+  type: "http" | "sse";
+  url: string;
+  headers?: Record<string, string>;
+}
+
+// Per-turn session configuration. Clients pick a Worker-defined `profile` and/or set `options`;
+// the Worker validates them against its allow-list and forwards only the resolved `options`.
+export interface SessionConfig {
+  model?: string;
+  systemPrompt?: string;
+  allowedTools?: string[];
+  disallowedTools?: string[];
+  maxTurns?: number;
+  cwd?: string;
+  // Added by the Worker from the account's registered servers, never taken from clients
+  mcpServers?: Record<string, McpServerDefinition>;
+}
+
+export interface PromptFrame {
+  type: "prompt";
+  prompt: string;
+  sessionId?: string | null;
+  requestId?: string;
+  // Account's approved tools (permission allow-list), filled in by the Worker
+  allowedTools?: string[];
+  profile?: string;
+  options?: SessionConfig;
+  // Workspace directory for this chat and files in it the user attached to this prompt
+  workspace?: string;
+  attachments?: string[];
+  // W3C trace context of the Worker's turn span, continued by the container
+  traceparent?: string;
+  // Account that sent the prompt, filled in by the Worker; only it may resume the turn
+  accountId?: string;
+}
+
+export interface CancelFrame {
+  type: "cancel";
+  requestId: string;
+}
+
+export interface PermissionResponseFrame {
+  type: "permission_response";
+  requestId?: string;
+  permissionId: string;
+  allow: boolean;
+  remember?: boolean;
+  toolName?: string;
+}
+
+// Reattaches a new connection to a turn that is still running (or just finished) after the old
+// connection dropped; the container replays the turn's frames with `seq` greater than `after`
+export interface ResumeFrame {
+  type: "resume";
+  requestId: string;
+  after: number;
+  // Account asking to resume, filled in by the Worker; must match the prompt's
+  accountId?: string;
+}
+
+export type ClientFrame = PromptFrame | CancelFrame | PermissionResponseFrame | ResumeFrame;
+
+export type ClientFrameType = ClientFrame["type"];
+
+// ---------------------------------------------------------------------------
+// Workspace files (served over HTTP by /files)
+// ---------------------------------------------------------------------------
+
+export interface WorkspaceEntry {
+  // Relative to the workspace root, always "/"-separated
+  path: string;
+  type: "file" | "directory";
+  size: number;
+  modifiedAt: number;
+}
+
+export interface WorkspaceListing {
+  workspace: string;
+  files: WorkspaceEntry[];
+  totalBytes: number;
+  truncated: boolean;
+}
+
+// ---------------------------------------------------------------------------
+// Discovery (served over HTTP by the container's /config, proxied by the Worker)
+// ---------------------------------------------------------------------------
+
+// From the frontmatter of .claude/skills/<skill>/SKILL.md
+export interface SkillInfo {
+  name: string;
+  description: string;
+}
+
+// "unknown" until a session has reported the server's status
+export type McpServerStatus = "connected" | "failed" | "needs-auth" | "pending" | "unknown";
+
+export interface McpServerInfo {
+  name: string;
+  type: "stdio" | "sse" | "http" | "sdk";
+  status: McpServerStatus;
+}
+
+// Custom tool loaded from the container's tools/ directory
+export interface ToolInfo {
+  name: string;
+  description: string;
+  // MCP server that serves it; the SDK exposes it as mcp__<server>__<name>
+  server: string;
+}
+
+export interface ContainerDiscovery {
+  skills: SkillInfo[];
+  mcpServers: McpServerInfo[];
+  tools: ToolInfo[];
+}
+
+// ---------------------------------------------------------------------------
+// Admin status (served over HTTP by the container's /status, shown on the admin page)
+// ---------------------------------------------------------------------------
+
+export interface PoolSessionStatus {
+  sessionId: string;
+  inUse: boolean;
+  // Not yet bound to a conversation (still has its temporary prewarm ID)
+  prewarmed: boolean;
+  broken: boolean;
+  createdAt: number;
+  lastUsed: number;
+}
+
+export interface ActiveTurnStatus {
+  requestId: string;
+  sessionId: string;
+  startedAt: number;
+  cancelled: boolean;
+  pendingPermissions: number;
+}
+
+export interface ContainerStatus {
+  // Milliseconds since the container process started
+  uptime: number;
+  poolSize: number;
+  available: number;
+  sessions: PoolSessionStatus[];
+  turns: ActiveTurnStatus[];
+}
+
+// ---------------------------------------------------------------------------
+// Errors
+// ---------------------------------------------------------------------------
+
+export type ProtocolErrorCode = "malformed_json" | "unsupported_version" | "unknown_type" | "invalid_frame";
+
+export class ProtocolError extends Error {
+  readonly code: ProtocolErrorCode;
+
+  constructor(code: ProtocolErrorCode, message: string) {
+    super(message);
+    this.name = "ProtocolError";
+    this.code = code;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Encoding and validation
+// ---------------------------------------------------------------------------
+
+export function encodeFrame(frame: ServerFrame | ClientFrame): string {
+  return JSON.stringify({ v: PROTOCOL_VERSION, ...frame });
+}
+
+export function errorFrame(code: ErrorCode, error: string): ErrorFrame {
+  return { type: "error", code, error };
+}
+
+type FrameObject = Record<string, unknown>;
+
+const isRecord = (value: unknown): value is FrameObject =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isString = (value: unknown): value is string => typeof value === "string";
+
+const isOptional = <T>(value: unknown, check: (v: unknown) => v is T) => value === undefined || check(value);
+
+const isStringArray = (value: unknown): value is string[] => Array.isArray(value) && value.every(isString);
+
+const isNumber = (value: unknown): value is number => typeof value === "number" && Number.isFinite(value);
+
+const isTurnUsage = (value: unknown): value is TurnUsage =>
+  isRecord(value) &&
+  isNumber(value.inputTokens) && isNumber(value.outputTokens) &&
+  isNumber(value.cacheReadInputTokens) && isNumber(value.cacheCreationInputTokens) &&
+  isNumber(value.costUsd) && isNumber(value.durationMs) && isNumber(value.numTurns);
+
+const isStringRecord = (value: unknown): value is Record<string, string> =>
+  isRecord(value) && Object.values(value).every(isString);
+
+const isMcpServers = (value: unknown): value is Record<string, McpServerDefinition> =>
+  isRecord(value) &&
+  Object.values(value).every(
+    (server) =>
+      isRecord(server) && (server.type === "http" || server.type === "sse") && isString(server.url) &&
+      isOptional(server.headers, isStringRecord)
+  );
+
+// Shape check only; the Worker's allow-list decides which values are acceptable
+const isSessionConfig = (value: unknown): value is SessionConfig =>
+  isRecord(value) &&
+  isOptional(value.model, isString) && isOptional(value.systemPrompt, isString) &&
+  isOptional(value.allowedTools, isStringArray) && isOptional(value.disallowedTools, isStringArray) &&
+  isOptional(value.maxTurns, (v): v is number => typeof v === "number") && isOptional(value.cwd, isString) &&
+  isOptional(value.mcpServers, isMcpServers);
+
+// Per-type field checks; a frame type missing from these maps is unknown
+const SERVER_VALIDATORS: Record<ServerFrameType, (f: FrameObject) => boolean> = {
+  metadata: (f) => isString(f.message) && isString(f.requestId),
+  session_created: (f) => isString(f.claudeSessionId),
+  message: (f) => isString(f.messageType) && isRecord(f.data) && isString(f.data.type),
+  queued: (f) => isString(f.requestId) && isNumber(f.position),
+  text_chunk: (f) => isString(f.content),
+  skill_invocation: (f) => isString(f.command),
+  permission_request: (f) =>
+    isString(f.requestId) && isString(f.permissionId) && isString(f.toolName) &&
+    isRecord(f.input) && typeof f.timeoutMs === "number",
+  permission_resolved: (f) =>
+    isOptional(f.requestId, isString) && isString(f.permissionId) &&
+    (f.behavior === "allow" || f.behavior === "deny") && isString(f.reason),
+  cancel_ack: (f) => isString(f.requestId) && typeof f.cancelled === "boolean",
+  draining: (f) => isNumber(f.graceMs),
+  reconnecting: (f) => isNumber(f.attempt) && isNumber(f.delayMs),
+  complete: (f) =>
+    isString(f.response) && isString(f.claudeSessionId) &&
+    isOptional(f.cancelled, (v): v is boolean => typeof v === "boolean") && isOptional(f.usage, isTurnUsage),
+  error: (f) => isString(f.code) && isString(f.error) && isOptional(f.retryAfter, isNumber),
+};
+
+const CLIENT_VALIDATORS: Record<ClientFrameType, (f: FrameObject) => boolean> = {
+  prompt: (f) =>
+    isString(f.prompt) && (f.sessionId === undefined || f.sessionId === null || isString(f.sessionId)) &&
+    isOptional(f.requestId, isString) && isOptional(f.allowedTools, isStringArray) &&
+    isOptional(f.profile, isString) && isOptional(f.options, isSessionConfig) &&
+    isOptional(f.workspace, isString) && isOptional(f.attachments, isStringArray) &&
+    isOptional(f.traceparent, isString) && isOptional(f.accountId, isString),
+  cancel: (f) => isString(f.requestId),
+  permission_response: (f) =>
+    isOptional(f.requestId, isString) && isString(f.permissionId) && typeof f.allow === "boolean" &&
+    isOptional(f.remember, (v): v is boolean => typeof v === "boolean") && isOptional(f.toolName, isString),
+  resume: (f) => isString(f.requestId) && isNumber(f.after) && isOptional(f.accountId, isString),
+};
+
+function parseWith<T>(raw: string | FrameObject, validators: Record<string, (f: FrameObject) => boolean>): T {
+  let value: unknown = raw;
+  if (typeof raw === "string") {
+    try {
+      value = JSON.parse(raw);
+    } catch {
+      throw new ProtocolError("malformed_json", "Frame is not valid JSON");
+    }
+  }
+
+  if (!isRecord(value)) {
+    throw new ProtocolError("invalid_frame", "Frame must be a JSON object");
+  }
+  if (value.v !== PROTOCOL_VERSION) {
+    throw new ProtocolError(
+      "unsupported_version",
+      `Unsupported protocol version ${String(value.v)} (expected ${PROTOCOL_VERSION})`
+    );
+  }
+  if (!isString(value.type) || !Object.hasOwn(validators, value.type)) {
+    throw new ProtocolError("unknown_type", `Unknown frame type: ${String(value.type)}`);
+  }
+  if (!validators[value.type](value)) {
+    throw new ProtocolError("invalid_frame", `Invalid ${value.type} frame`);
+  }
+
+  const frame: FrameObject = { ...value };
+  delete frame.v;
+  return frame as T;
+}
+
+// Parse and validate a frame sent by the container; throws ProtocolError
+export function parseServerFrame(raw: string | FrameObject): ServerFrame {
+  const frame = parseWith<ServerFrame>(raw, SERVER_VALIDATORS);
+  if (!isOptional(frame.turnId, isString) || !isOptional(frame.seq, isNumber)) {
+    throw new ProtocolError("invalid_frame", `Invalid ${frame.type} frame`);
+  }
+  return frame;
+}
+
+// Parse and validate a frame sent by a client; throws ProtocolError
+export function parseClientFrame(raw: string | FrameObject): ClientFrame {
+  return parseWith<ClientFrame>(raw, CLIENT_VALIDATORS);
+}
@@ -0,0 +1,203 @@
+// Minimal OpenTelemetry tracer shared by the Worker and the container. Spans are exported as
+// OTLP/HTTP JSON to `${endpoint}/v1/traces`; trace context crosses process boundaries as a W3C
+// `traceparent` string (the Worker puts it in the prompt frame). Without an endpoint nothing is
+// recorded, but spans still get IDs so context keeps flowing to services that do export.
+
+export type SpanKind = "internal" | "server" | "client";
+
+export type AttributeValue = string | number | boolean;
+
+export interface TracerConfig {
+  serviceName: string;
+  // OTLP/HTTP base URL, e.g. http://localhost:4318; tracing is off when unset
+  endpoint?: string;
+  // Extra export headers in OTEL_EXPORTER_OTLP_HEADERS form: "key=value,key2=value2"
+  headers?: string;
+}
+
+interface SpanContext {
+  traceId: string;
+  spanId: string;
+}
+
+interface SpanEvent {
+  name: string;
+  timeUnixNano: string;
+  attributes: Record<string, AttributeValue>;
+}
+
+const KIND_CODES: Record<SpanKind, number> = { internal: 1, server: 2, client: 3 };
+
+// Spans beyond this are dropped until the next flush, so a dead collector can't grow memory
+const MAX_BUFFERED_SPANS = 2000;
+
+const EXPORT_TIMEOUT_MS = 5000;
+
+const TRACEPARENT_PATTERN = /^00-([0-9a-f]{32})-([0-9a-f]{16})-[0-9a-f]{2}$/;
+
+const randomHex = (bytes: number) =>
+  Array.from(crypto.getRandomValues(new Uint8Array(bytes)), (b) => b.toString(16).padStart(2, "0")).join("");
+
+const nowNano = () => `${BigInt(Date.now()) * 1000000n}`;
+
+export function parseTraceparent(value: string | undefined | null): SpanContext | null {
+  const match = value?.match(TRACEPARENT_PATTERN);
+  return match ? { traceId: match[1], spanId: match[2] } : null;
+}
+
+function toOtlpAttributes(attributes: Record<string, AttributeValue>) {
+  return Object.entries(attributes).map(([key, value]) => ({
+    key,
+    value:
+      typeof value === "boolean" ? { boolValue: value }
+      : typeof value === "number" ? (Number.isInteger(value) ? { intValue: value } : { doubleValue: value })
+      : { stringValue: value },
+  }));
+}
+
+export class Span {
+  readonly name: string;
+  readonly traceId: string;
+  readonly spanId: string;
+  private readonly tracer: Tracer;
+  private readonly kind: SpanKind;
+  private readonly parentSpanId: string | undefined;
+  private readonly startTimeUnixNano = nowNano();
+  private endTimeUnixNano: string | null = null;
+  private readonly attributes: Record<string, AttributeValue> = {};
+  private readonly events: SpanEvent[] = [];
+  private status: { code: number; message?: string } = { code: 0 };
+
+  constructor(tracer: Tracer, name: string, kind: SpanKind, parent: SpanContext | null) {
+    this.tracer = tracer;
+    this.name = name;
+    this.kind = kind;
+    this.parentSpanId = parent?.spanId;
+    this.traceId = parent?.traceId ?? randomHex(16);
+    this.spanId = randomHex(8);
+  }
+
+  setAttributes(attributes: Record<string, AttributeValue | undefined>) {
+    for (const [key, value] of Object.entries(attributes)) {
+      if (value !== undefined) this.attributes[key] = value;
+    }
+    return this;
+  }
+
+  addEvent(name: string, attributes: Record<string, AttributeValue> = {}) {
+    this.events.push({ name, timeUnixNano: nowNano(), attributes });
+  }
+
+  // Marks the span failed; the exception is recorded as an event like the OTel SDKs do
+  recordError(error: unknown) {
+    const message = error instanceof Error ? error.message : String(error);
+    this.status = { code: 2, message };
+    this.addEvent("exception", {
+      "exception.type": error instanceof Error ? error.name : "Error",
+      "exception.message": message,
+    });
+  }
+
+  startChild(name: string, kind: SpanKind = "internal") {
+    return this.tracer.startSpan(name, { parent: this, kind });
+  }
+
+  traceparent() {
+    return `00-${this.traceId}-${this.spanId}-01`;
+  }
+
+  // Idempotent, so error paths can end a span without tracking whether it already ended
+  end() {
+    if (this.endTimeUnixNano) return;
+    this.endTimeUnixNano = nowNano();
+    this.tracer.record(this);
+  }
+
+  toOtlp() {
+    return {
+      traceId: this.traceId,
+      spanId: this.spanId,
+      ...(this.parentSpanId && { parentSpanId: this.parentSpanId }),
+      name: this.name,
+      kind: KIND_CODES[this.kind],
+      startTimeUnixNano: this.startTimeUnixNano,
+      endTimeUnixNano: this.endTimeUnixNano ?? nowNano(),
+      attributes: toOtlpAttributes(this.attributes),
+      events: this.events.map((event) => ({ ...event, attributes: toOtlpAttributes(event.attributes) })),
+      status: this.status,
+    };
+  }
+}
+
+export class Tracer {
+  private buffer: Span[] = [];
+  private readonly config: TracerConfig;
+  private readonly headers: Record<string, string>;
+
+  constructor(config: TracerConfig) {
+    this.config = config;
+    this.headers = Object.fromEntries(
+      (config.headers || "")
+        .split(",")
+        .map((pair) => pair.split("="))
+        .filter((pair) => pair.length >= 2 && pair[0].trim())
+        .map(([key, ...value]) => [key.trim(), decodeURIComponent(value.join("=").trim())])
+    );
+  }
+
+  get enabled() {
+    return !!this.config.endpoint;
+  }
+
+  // `parent` is a local span or a traceparent received from another service
+  startSpan(name: string, options: { parent?: Span | string | null; kind?: SpanKind } = {}) {
+    const parent =
+      typeof options.parent === "string" ? parseTraceparent(options.parent) : (options.parent ?? null);
+    return new Span(this, name, options.kind ?? "internal", parent);
+  }
+
+  // Runs `fn` inside a child span of `parent`, recording a thrown error on it
+  async trace<T>(parent: Span, name: string, fn: (span: Span) => Promise<T>): Promise<T> {
+    const span = parent.startChild(name);
+    try {
+      return await fn(span);
+    } catch (error) {
+      span.recordError(error);
+      throw error;
+    } finally {
+      span.end();
+    }
+  }
+
+  record(span: Span) {
+    if (this.enabled && this.buffer.length < MAX_BUFFERED_SPANS) {
+      this.buffer.push(span);
+    }
+  }
+
+  // Sends buffered spans; export failures are reported to the caller and the spans are dropped
+  async flush(): Promise<void> {
+    if (!this.enabled || this.buffer.length === 0) return;
+    const spans = this.buffer;
+    this.buffer = [];
+
+    const body = {
+      resourceSpans: [
+        {
+          resource: { attributes: toOtlpAttributes({ "service.name": this.config.serviceName }) },
+          scopeSpans: [{ scope: { name: "claude-agent" }, spans: spans.map((span) => span.toOtlp()) }],
+        },
+      ],
+    };
+    const res = await fetch(`${this.config.endpoint!.replace(/\/+$/, "")}/v1/traces`, {
+      method: "POST",
+      headers: { ...this.headers, "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+      signal: AbortSignal.timeout(EXPORT_TIMEOUT_MS),
+    });
+    if (!res.ok) {
+      throw new Error(`OTLP export failed with HTTP ${res.status}`);
+    }
+    await res.body?.cancel();
+  }
+}
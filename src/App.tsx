@@ -1,15 +1,28 @@
+import type { ReactNode } from 'react'
 import { BrowserRouter as Router, Routes, Route, Navigate } from 'react-router-dom'
 import { SessionsPage } from './pages/SessionsPage'
 import { ChatPage } from './pages/ChatPage'
+import { LoginPage } from './pages/LoginPage'
+import { SettingsPage } from './pages/SettingsPage'
+import { AdminPage } from './pages/AdminPage'
+import { getToken } from './lib/auth'
+
+function RequireAuth({ children }: { children: ReactNode }) {
+  return getToken() ? children : <Navigate to="/login" replace />
+}
 
 function App() {
   return (
     <Router>
       <div className="h-screen w-screen overflow-hidden bg-gray-50">
         <Routes>
-          <Route path="/" element={<SessionsPage />} />
-          <Route path="/chat" element={<ChatPage />} />
-          <Route path="/chat/:sessionId" element={<ChatPage />} />
+          <Route path="/login" element={<LoginPage />} />
+          <Route path="/" element={<RequireAuth><SessionsPage /></RequireAuth>} />
+          <Route path="/chat" element={<RequireAuth><ChatPage /></RequireAuth>} />
+          <Route path="/chat/:sessionId" element={<RequireAuth><ChatPage /></RequireAuth>} />
+          <Route path="/settings" element={<RequireAuth><SettingsPage /></RequireAuth>} />
+          {/* The Worker's /admin routes decide who may use it */}
+          <Route path="/admin" element={<RequireAuth><AdminPage /></RequireAuth>} />
           <Route path="*" element={<Navigate to="/" replace />} />
         </Routes>
       </div>
@@ -18,4 +31,3 @@ function App() {
 }
 
 export default App
-
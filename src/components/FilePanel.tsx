@@ -0,0 +1,118 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@base-ui/react';
+import { Download, File, Folder, RefreshCw, X } from 'lucide-react';
+import { downloadFromWorkspace, formatBytes, listWorkspace, type WorkspaceListing } from '../lib/files';
+
+interface FilePanelProps {
+  workspace: string;
+  // Bumped by the chat after uploads and finished turns to trigger a reload
+  refreshKey: number;
+  onClose: () => void;
+}
+
+// Side panel listing the chat's workspace as an indented tree, with per-file downloads
+export function FilePanel({ workspace, refreshKey, onClose }: FilePanelProps) {
+  const [listing, setListing] = useState<WorkspaceListing | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [reloads, setReloads] = useState(0);
+
+  useEffect(() => {
+    let cancelled = false;
+    const load = async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const data = await listWorkspace(workspace);
+        if (!cancelled) setListing(data);
+      } catch (err) {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load files');
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [workspace, refreshKey, reloads]);
+
+  const download = async (path: string) => {
+    try {
+      await downloadFromWorkspace(workspace, path);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Download failed');
+    }
+  };
+
+  return (
+    <aside className="w-72 shrink-0 border-l border-gray-300 bg-white flex flex-col">
+      <div className="flex items-center justify-between px-4 py-3 border-b border-gray-300 bg-gray-100">
+        <p className="font-mono text-xs font-bold uppercase text-gray-900">Workspace</p>
+        <div className="flex items-center gap-1">
+          <Button
+            onClick={() => setReloads(n => n + 1)}
+            disabled={loading}
+            title="Refresh"
+            className="p-1 text-gray-600 hover:text-gray-900 bg-transparent border-0 cursor-pointer disabled:opacity-50"
+          >
+            <RefreshCw size={14} className={loading ? 'animate-spin' : ''} />
+          </Button>
+          <Button
+            onClick={onClose}
+            title="Close"
+            className="p-1 text-gray-600 hover:text-gray-900 bg-transparent border-0 cursor-pointer"
+          >
+            <X size={14} />
+          </Button>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto py-2">
+        {error && <p className="px-4 py-2 font-mono text-xs text-gray-600">{error}</p>}
+        {!error && listing?.files.length === 0 && (
+          <p className="px-4 py-2 font-mono text-xs text-gray-400">No files yet. Attach files to share them with the agent.</p>
+        )}
+        {listing?.files.map((entry) => {
+          const depth = entry.path.split('/').length - 1;
+          const name = entry.path.split('/').pop();
+          return (
+            <div
+              key={entry.path}
+              className="group flex items-center gap-2 px-4 py-1 hover:bg-gray-50"
+              style={{ paddingLeft: `${16 + depth * 12}px` }}
+            >
+              {entry.type === 'directory' ? (
+                <Folder size={12} className="shrink-0 text-gray-500" />
+              ) : (
+                <File size={12} className="shrink-0 text-gray-400" />
+              )}
+              <span className="flex-1 truncate font-mono text-xs text-gray-900" title={entry.path}>{name}</span>
+              {entry.type === 'file' && (
+                <>
+                  <span className="font-mono text-[10px] text-gray-400">{formatBytes(entry.size)}</span>
+                  <Button
+                    onClick={() => download(entry.path)}
+                    title="Download"
+                    className="p-0.5 text-gray-400 hover:text-gray-900 bg-transparent border-0 cursor-pointer opacity-0 group-hover:opacity-100"
+                  >
+                    <Download size={12} />
+                  </Button>
+                </>
+              )}
+            </div>
+          );
+        })}
+        {listing?.truncated && (
+          <p className="px-4 py-2 font-mono text-[10px] uppercase text-gray-400">Listing truncated</p>
+        )}
+      </div>
+
+      {listing && (
+        <p className="px-4 py-2 border-t border-gray-300 font-mono text-[10px] uppercase text-gray-500">
+          {listing.files.filter(f => f.type === 'file').length} files · {formatBytes(listing.totalBytes)}
+        </p>
+      )}
+    </aside>
+  );
+}
@@ -0,0 +1,264 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@base-ui/react';
+import { Activity, Pencil, Plus, RefreshCw, Trash2, X } from 'lucide-react';
+import {
+  checkMcpServer,
+  deleteMcpServer,
+  listMcpServers,
+  parseHeaderLines,
+  saveMcpServer,
+  type McpCheckResult,
+  type McpServer,
+} from '../lib/mcp';
+
+interface McpPanelProps {
+  onClose: () => void;
+}
+
+interface ServerForm {
+  // Set when editing an existing server; its name can't change
+  editing: boolean;
+  name: string;
+  type: 'http' | 'sse';
+  url: string;
+  headers: string;
+  // Existing header names, shown because their values can't be read back
+  storedHeaders: string[];
+}
+
+const emptyForm: ServerForm = { editing: false, name: '', type: 'http', url: '', headers: '', storedHeaders: [] };
+
+const inputClass =
+  'w-full px-2 py-1 bg-gray-50 border border-gray-300 text-gray-900 placeholder-gray-400 font-mono text-xs focus:outline-none focus:border-gray-900';
+
+// Side panel for the account's own MCP servers; changes apply from the next turn
+export function McpPanel({ onClose }: McpPanelProps) {
+  const [servers, setServers] = useState<McpServer[]>([]);
+  const [checks, setChecks] = useState<Record<string, McpCheckResult | 'checking'>>({});
+  const [form, setForm] = useState<ServerForm | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [reloads, setReloads] = useState(0);
+
+  useEffect(() => {
+    let cancelled = false;
+    const load = async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const data = await listMcpServers();
+        if (!cancelled) setServers(data);
+      } catch (err) {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load MCP servers');
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [reloads]);
+
+  const runCheck = async (name: string) => {
+    setChecks(prev => ({ ...prev, [name]: 'checking' }));
+    try {
+      const result = await checkMcpServer(name);
+      setChecks(prev => ({ ...prev, [name]: result }));
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Check failed';
+      setChecks(prev => ({ ...prev, [name]: { name, ok: false, tools: [], error: errorMessage, latencyMs: 0 } }));
+    }
+  };
+
+  const save = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!form) return;
+    setSaving(true);
+    setError(null);
+    try {
+      const headers = form.headers.trim() ? parseHeaderLines(form.headers) : undefined;
+      // A new server without headers is stored with none; an edit without headers keeps the old ones
+      await saveMcpServer(form.name.trim(), {
+        type: form.type,
+        url: form.url.trim(),
+        ...(headers || !form.editing ? { headers: headers || {} } : {}),
+      });
+      setForm(null);
+      setReloads(n => n + 1);
+      runCheck(form.name.trim());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save MCP server');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const remove = async (name: string) => {
+    setError(null);
+    try {
+      await deleteMcpServer(name);
+      setServers(prev => prev.filter(s => s.name !== name));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete MCP server');
+    }
+  };
+
+  return (
+    <aside className="w-80 shrink-0 border-l border-gray-300 bg-white flex flex-col">
+      <div className="flex items-center justify-between px-4 py-3 border-b border-gray-300 bg-gray-100">
+        <p className="font-mono text-xs font-bold uppercase text-gray-900">MCP Servers</p>
+        <div className="flex items-center gap-1">
+          <Button
+            onClick={() => setForm(emptyForm)}
+            title="Add server"
+            className="p-1 text-gray-600 hover:text-gray-900 bg-transparent border-0 cursor-pointer"
+          >
+            <Plus size={14} />
+          </Button>
+          <Button
+            onClick={() => setReloads(n => n + 1)}
+            disabled={loading}
+            title="Refresh"
+            className="p-1 text-gray-600 hover:text-gray-900 bg-transparent border-0 cursor-pointer disabled:opacity-50"
+          >
+            <RefreshCw size={14} className={loading ? 'animate-spin' : ''} />
+          </Button>
+          <Button
+            onClick={onClose}
+            title="Close"
+            className="p-1 text-gray-600 hover:text-gray-900 bg-transparent border-0 cursor-pointer"
+          >
+            <X size={14} />
+          </Button>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto">
+        {form && (
+          <form onSubmit={save} className="px-4 py-3 space-y-2 border-b border-gray-300 bg-gray-50">
+            <input
+              value={form.name}
+              onChange={(e) => setForm({ ...form, name: e.target.value })}
+              placeholder="name"
+              disabled={form.editing}
+              className={`${inputClass} disabled:opacity-50`}
+            />
+            <div className="flex gap-2">
+              <select
+                value={form.type}
+                onChange={(e) => setForm({ ...form, type: e.target.value as ServerForm['type'] })}
+                className="px-2 py-1 bg-gray-50 border border-gray-300 text-gray-900 font-mono text-xs uppercase focus:outline-none focus:border-gray-900"
+              >
+                <option value="http">http</option>
+                <option value="sse">sse</option>
+              </select>
+              <input
+                value={form.url}
+                onChange={(e) => setForm({ ...form, url: e.target.value })}
+                placeholder="https://example.com/mcp"
+                className={inputClass}
+              />
+            </div>
+            <textarea
+              value={form.headers}
+              onChange={(e) => setForm({ ...form, headers: e.target.value })}
+              placeholder={
+                form.storedHeaders.length > 0
+                  ? `Stored: ${form.storedHeaders.join(', ')}\nLeave empty to keep them`
+                  : 'Authorization: Bearer ...'
+              }
+              rows={3}
+              className={`${inputClass} resize-none`}
+            />
+            <div className="flex gap-2">
+              <Button
+                type="submit"
+                disabled={saving || !form.name.trim() || !form.url.trim()}
+                className="flex-1 px-3 py-1 font-mono font-bold uppercase text-[10px] bg-gray-900 text-white border border-gray-900 hover:bg-white hover:text-gray-900 transition-colors duration-200 disabled:opacity-50 disabled:cursor-not-allowed cursor-pointer"
+              >
+                {form.editing ? 'Update' : 'Add'}
+              </Button>
+              <Button
+                type="button"
+                onClick={() => setForm(null)}
+                className="px-3 py-1 font-mono font-bold uppercase text-[10px] bg-white text-gray-900 border border-gray-300 hover:border-gray-900 cursor-pointer"
+              >
+                Cancel
+              </Button>
+            </div>
+          </form>
+        )}
+
+        {error && <p className="px-4 py-2 font-mono text-xs text-gray-600">{error}</p>}
+        {!loading && !error && servers.length === 0 && !form && (
+          <p className="px-4 py-2 font-mono text-xs text-gray-400">
+            No MCP servers yet. Add one to give the agent more tools.
+          </p>
+        )}
+
+        {servers.map((server) => {
+          const check = checks[server.name];
+          return (
+            <div key={server.name} className="group px-4 py-2 border-b border-gray-200">
+              <div className="flex items-center gap-2">
+                <span className="flex-1 truncate font-mono text-xs font-bold text-gray-900">{server.name}</span>
+                <span className="font-mono text-[10px] uppercase text-gray-400">{server.type}</span>
+                <Button
+                  onClick={() => runCheck(server.name)}
+                  disabled={check === 'checking'}
+                  title="Check connection"
+                  className="p-0.5 text-gray-400 hover:text-gray-900 bg-transparent border-0 cursor-pointer disabled:opacity-50"
+                >
+                  <Activity size={12} className={check === 'checking' ? 'animate-pulse' : ''} />
+                </Button>
+                <Button
+                  onClick={() =>
+                    setForm({
+                      editing: true,
+                      name: server.name,
+                      type: server.type,
+                      url: server.url,
+                      headers: '',
+                      storedHeaders: server.headerNames,
+                    })
+                  }
+                  title="Edit"
+                  className="p-0.5 text-gray-400 hover:text-gray-900 bg-transparent border-0 cursor-pointer opacity-0 group-hover:opacity-100"
+                >
+                  <Pencil size={12} />
+                </Button>
+                <Button
+                  onClick={() => remove(server.name)}
+                  title="Delete"
+                  className="p-0.5 text-gray-400 hover:text-gray-900 bg-transparent border-0 cursor-pointer opacity-0 group-hover:opacity-100"
+                >
+                  <Trash2 size={12} />
+                </Button>
+              </div>
+              <p className="font-mono text-[10px] text-gray-500 truncate" title={server.url}>{server.url}</p>
+              {server.headerNames.length > 0 && (
+                <p className="font-mono text-[10px] text-gray-400">Headers: {server.headerNames.join(', ')}</p>
+              )}
+              {check && check !== 'checking' && (
+                <p
+                  className={`font-mono text-[10px] mt-1 ${check.ok ? 'text-green-700' : 'text-red-700'}`}
+                  title={check.tools.join(', ')}
+                >
+                  {check.ok
+                    ? `Connected · ${check.tools.length} tools · ${check.latencyMs}ms`
+                    : `Failed: ${check.error}`}
+                </p>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      <p className="px-4 py-2 border-t border-gray-300 font-mono text-[10px] uppercase text-gray-500">
+        Changes apply from the next message
+      </p>
+    </aside>
+  );
+}
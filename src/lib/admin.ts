@@ -0,0 +1,61 @@
+import { authFetch } from './auth';
+import type { ContainerStatus } from '../../shared/protocol';
+
+export type { ContainerStatus };
+
+// One AgentContainer from the Worker's registry; `status` is null when it isn't running
+// or didn't answer (then `error` says why)
+export interface AdminContainer {
+  objectId: string;
+  accountId: string | null;
+  startedAt: number;
+  stoppedAt: number | null;
+  running: boolean;
+  status: ContainerStatus | null;
+  error?: string;
+}
+
+const errorFrom = async (res: Response) => {
+  const errorData = await res.json().catch(() => ({}));
+  return new Error(errorData.error || `HTTP ${res.status}`);
+};
+
+const containerPath = (objectId: string) => `/admin/containers/${encodeURIComponent(objectId)}`;
+
+export const isAdminAccount = async (): Promise<boolean> => {
+  const res = await authFetch('/auth/me');
+  if (!res.ok) return false;
+  const data = await res.json();
+  return data.isAdmin === true;
+};
+
+export const listContainers = async (): Promise<{ containers: AdminContainer[]; now: number }> => {
+  const res = await authFetch('/admin/containers');
+  if (!res.ok) throw await errorFrom(res);
+  return res.json();
+};
+
+export const stopContainer = async (objectId: string): Promise<{ stopped: boolean }> => {
+  const res = await authFetch(`${containerPath(objectId)}/stop`, { method: 'POST' });
+  if (!res.ok) throw await errorFrom(res);
+  return res.json();
+};
+
+export const evictSession = async (objectId: string, sessionId: string): Promise<{ interrupted: boolean }> => {
+  const res = await authFetch(`${containerPath(objectId)}/sessions/${encodeURIComponent(sessionId)}`, {
+    method: 'DELETE',
+  });
+  if (!res.ok) throw await errorFrom(res);
+  return res.json();
+};
+
+// "3h 12m", "4m 05s", "12s"
+export const formatDuration = (ms: number) => {
+  const seconds = Math.max(0, Math.floor(ms / 1000));
+  const h = Math.floor(seconds / 3600);
+  const m = Math.floor((seconds % 3600) / 60);
+  const s = seconds % 60;
+  if (h > 0) return `${h}h ${m}m`;
+  if (m > 0) return `${m}m ${String(s).padStart(2, '0')}s`;
+  return `${s}s`;
+};
@@ -0,0 +1,23 @@
+const TOKEN_KEY = 'agentAuthToken';
+
+export const getToken = () => localStorage.getItem(TOKEN_KEY);
+
+export const setToken = (token: string) => localStorage.setItem(TOKEN_KEY, token);
+
+export const clearToken = () => localStorage.removeItem(TOKEN_KEY);
+
+// fetch() wrapper that attaches the bearer token and sends the user back to login on 401
+export const authFetch = async (input: string, init: RequestInit = {}) => {
+  const headers = new Headers(init.headers);
+  const token = getToken();
+  if (token) {
+    headers.set('Authorization', `Bearer ${token}`);
+  }
+
+  const res = await fetch(input, { ...init, headers });
+  if (res.status === 401) {
+    clearToken();
+    window.location.assign('/login');
+  }
+  return res;
+};
@@ -0,0 +1,49 @@
+import { authFetch } from './auth';
+import type { WorkspaceEntry, WorkspaceListing } from '../../shared/protocol';
+
+export type { WorkspaceEntry, WorkspaceListing };
+
+const errorFrom = async (res: Response) => {
+  const errorData = await res.json().catch(() => ({}));
+  return new Error(errorData.error || `HTTP ${res.status}`);
+};
+
+export const listWorkspace = async (workspace: string): Promise<WorkspaceListing> => {
+  const res = await authFetch(`/files?workspace=${encodeURIComponent(workspace)}`);
+  if (!res.ok) throw await errorFrom(res);
+  return res.json();
+};
+
+// Stores the files at the workspace root under their own names
+export const uploadToWorkspace = async (workspace: string, files: File[]): Promise<WorkspaceEntry[]> => {
+  const form = new FormData();
+  form.append('workspace', workspace);
+  for (const file of files) {
+    form.append('file', file);
+  }
+
+  const res = await authFetch('/files', { method: 'POST', body: form });
+  if (!res.ok) throw await errorFrom(res);
+  const data = await res.json();
+  return data.files;
+};
+
+// Downloads need the auth header, so fetch the file and hand the browser a blob URL
+export const downloadFromWorkspace = async (workspace: string, path: string) => {
+  const encodedPath = path.split('/').map(encodeURIComponent).join('/');
+  const res = await authFetch(`/files/${encodedPath}?workspace=${encodeURIComponent(workspace)}`);
+  if (!res.ok) throw await errorFrom(res);
+
+  const url = URL.createObjectURL(await res.blob());
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = path.split('/').pop() || 'download';
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+export const formatBytes = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+};
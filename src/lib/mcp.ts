@@ -0,0 +1,73 @@
+import { authFetch } from './auth';
+
+// Header values are write-only: the Worker only returns their names
+export interface McpServer {
+  name: string;
+  type: 'http' | 'sse';
+  url: string;
+  headerNames: string[];
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface McpServerInput {
+  type: 'http' | 'sse';
+  url: string;
+  // Omit to keep the stored headers
+  headers?: Record<string, string>;
+}
+
+export interface McpCheckResult {
+  name: string;
+  ok: boolean;
+  tools: string[];
+  error?: string;
+  latencyMs: number;
+}
+
+const errorFrom = async (res: Response) => {
+  const errorData = await res.json().catch(() => ({}));
+  return new Error(errorData.error || `HTTP ${res.status}`);
+};
+
+const serverPath = (name: string) => `/mcp-servers/${encodeURIComponent(name)}`;
+
+export const listMcpServers = async (): Promise<McpServer[]> => {
+  const res = await authFetch('/mcp-servers');
+  if (!res.ok) throw await errorFrom(res);
+  const data = await res.json();
+  return data.servers;
+};
+
+export const saveMcpServer = async (name: string, input: McpServerInput): Promise<McpServer> => {
+  const res = await authFetch(serverPath(name), {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(input),
+  });
+  if (!res.ok) throw await errorFrom(res);
+  return res.json();
+};
+
+export const deleteMcpServer = async (name: string) => {
+  const res = await authFetch(serverPath(name), { method: 'DELETE' });
+  if (!res.ok) throw await errorFrom(res);
+};
+
+export const checkMcpServer = async (name: string): Promise<McpCheckResult> => {
+  const res = await authFetch(`${serverPath(name)}/check`, { method: 'POST' });
+  if (!res.ok) throw await errorFrom(res);
+  return res.json();
+};
+
+// Parses "Name: value" lines from the headers field
+export const parseHeaderLines = (text: string): Record<string, string> => {
+  const headers: Record<string, string> = {};
+  for (const line of text.split('\n')) {
+    const separator = line.indexOf(':');
+    if (separator > 0) {
+      headers[line.slice(0, separator).trim()] = line.slice(separator + 1).trim();
+    }
+  }
+  return headers;
+};
@@ -0,0 +1,37 @@
+import { authFetch } from './auth';
+
+// The Worker never returns the key itself, only whether one is stored
+export interface ApiKeyStatus {
+  configured: boolean;
+  updatedAt: number | null;
+  // The deployment has its own key, used while the account has none
+  fallback: boolean;
+  encryptionConfigured: boolean;
+}
+
+const errorFrom = async (res: Response) => {
+  const errorData = await res.json().catch(() => ({}));
+  return new Error(errorData.error || `HTTP ${res.status}`);
+};
+
+export const getApiKeyStatus = async (): Promise<ApiKeyStatus> => {
+  const res = await authFetch('/settings/api-key');
+  if (!res.ok) throw await errorFrom(res);
+  return res.json();
+};
+
+export const saveApiKey = async (apiKey: string): Promise<ApiKeyStatus> => {
+  const res = await authFetch('/settings/api-key', {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ apiKey }),
+  });
+  if (!res.ok) throw await errorFrom(res);
+  return res.json();
+};
+
+export const deleteApiKey = async (): Promise<ApiKeyStatus> => {
+  const res = await authFetch('/settings/api-key', { method: 'DELETE' });
+  if (!res.ok) throw await errorFrom(res);
+  return res.json();
+};
@@ -0,0 +1,307 @@
+import { authFetch, getToken } from './auth';
+import {
+  encodeFrame,
+  parseServerFrame,
+  type ErrorFrame,
+  type McpServerInfo,
+  type PermissionRequestFrame,
+  type PromptFrame,
+  type PermissionResolvedFrame,
+  type ServerFrame,
+  type SessionConfig,
+  type SkillInfo,
+  type ToolInfo,
+} from '../../shared/protocol';
+
+export type {
+  McpServerInfo,
+  PermissionRequestFrame,
+  PermissionResolvedFrame,
+  PromptFrame,
+  ServerFrame,
+  SessionConfig,
+  SkillInfo,
+  ToolInfo,
+};
+
+export interface TurnPayload {
+  prompt: string;
+  sessionId: string | null;
+  requestId: string;
+  // Worker-defined profile name and per-turn overrides, validated by the Worker
+  profile?: string;
+  options?: SessionConfig;
+  // Chat workspace and the files in it attached to this prompt
+  workspace?: string;
+  attachments?: string[];
+}
+
+export type FrameHandler = (frame: ServerFrame) => void;
+
+// session_busy: the conversation already has the maximum number of turns waiting in the container
+// container_draining: the container is shutting down or stopped mid-turn; a new one takes the retry
+const QUOTA_CODES = [
+  'rate_limited',
+  'concurrency_limited',
+  'token_budget_exceeded',
+  'cost_budget_exceeded',
+  'session_busy',
+  'container_draining',
+];
+
+// The account hit one of the Worker's limits, the conversation is busy or the container is stopping;
+// `retryAfter` is in seconds
+export class QuotaError extends Error {
+  readonly code: string;
+  readonly retryAfter: number;
+
+  constructor(code: string, message: string, retryAfter: number) {
+    super(message);
+    this.name = 'QuotaError';
+    this.code = code;
+    this.retryAfter = retryAfter;
+  }
+}
+
+const turnError = (frame: ErrorFrame) =>
+  QUOTA_CODES.includes(frame.code)
+    ? new QuotaError(frame.code, frame.error, frame.retryAfter ?? 0)
+    : new Error(frame.error);
+
+// Attempts at reattaching to a turn after its stream dropped, and the backoff between them
+const RESUME_ATTEMPTS = 4;
+const RESUME_BASE_DELAY_MS = 500;
+const RESUME_MAX_DELAY_MS = 8000;
+
+const sleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+// Position in a turn's frames, so a resumed stream skips what was already handled
+interface TurnCursor {
+  lastSeq: number;
+}
+
+// Hands new frames of a turn to `onFrame`, dropping replayed ones; returns true once the turn completed
+const handleTurnFrame = (frame: ServerFrame, cursor: TurnCursor, onFrame: FrameHandler) => {
+  if (frame.seq !== undefined) {
+    if (frame.seq <= cursor.lastSeq) return false;
+    cursor.lastSeq = frame.seq;
+  }
+  if (frame.type === 'error') {
+    throw turnError(frame);
+  }
+  onFrame(frame);
+  return frame.type === 'complete';
+};
+
+// Reads an NDJSON or SSE turn stream, going by its Content-Type; returns false when it ended before
+// the turn did
+const readTurnStream = async (res: Response, cursor: TurnCursor, onFrame: FrameHandler) => {
+  const reader = res.body?.getReader();
+  if (!reader) return false;
+
+  const sse = res.headers.get('Content-Type')?.startsWith('text/event-stream') ?? false;
+  // `data:` lines of the SSE event being read; a blank line ends the event
+  let eventData: string[] = [];
+  const handleLine = (line: string) => {
+    if (!sse) {
+      return line.trim() ? handleTurnFrame(parseServerFrame(line), cursor, onFrame) : false;
+    }
+    if (line === '') {
+      if (eventData.length === 0) return false;
+      const frame = parseServerFrame(eventData.join('\n'));
+      eventData = [];
+      return handleTurnFrame(frame, cursor, onFrame);
+    }
+    // Heartbeat comments, `event:` and `id:` are skipped: the frame carries its own type and seq
+    if (line.startsWith('data:')) eventData.push(line.slice(5).replace(/^ /, ''));
+    return false;
+  };
+
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    let chunk: ReadableStreamReadResult<Uint8Array>;
+    try {
+      chunk = await reader.read();
+    } catch (err) {
+      console.log('[Stream] Read failed:', err);
+      return false;
+    }
+    if (chunk.done) return false;
+
+    buffer += decoder.decode(chunk.value, { stream: true });
+    const lines = buffer.split('\n');
+    buffer = lines.pop() || '';
+
+    for (const line of lines) {
+      if (handleLine(line.replace(/\r$/, ''))) return true;
+    }
+  }
+};
+
+// Reattaches to a turn whose stream dropped, with backoff; `reconnecting` frames report each attempt.
+// Resumed streams are read as SSE, starting after the Last-Event-ID (the last `seq` handled).
+const resumeTurn = async (turnId: string, cursor: TurnCursor, onFrame: FrameHandler) => {
+  for (let attempt = 1; attempt <= RESUME_ATTEMPTS; attempt++) {
+    const delayMs = Math.min(RESUME_MAX_DELAY_MS, RESUME_BASE_DELAY_MS * 2 ** (attempt - 1));
+    onFrame({ type: 'reconnecting', attempt, delayMs });
+    await sleep(delayMs);
+
+    let res: Response;
+    try {
+      res = await authFetch(`/query/${encodeURIComponent(turnId)}/stream`, {
+        headers: { Accept: 'text/event-stream', 'Last-Event-ID': String(cursor.lastSeq) },
+      });
+    } catch (err) {
+      console.log('[Stream] Resume failed:', err);
+      continue;
+    }
+    if (!res.ok) {
+      const errorData = await res.json().catch(() => ({}));
+      // The container no longer has the turn; retrying won't bring it back
+      if (res.status === 404) throw new Error(errorData.error || 'Turn is no longer available');
+      console.log('[Stream] Resume failed:', res.status, errorData.error);
+      continue;
+    }
+    if (await readTurnStream(res, cursor, onFrame)) return;
+  }
+  throw new Error('Lost connection to the turn');
+};
+
+// Opens the long-lived chat socket; resolves null when the upgrade fails so callers can fall back to NDJSON
+export const openChatSocket = (): Promise<WebSocket | null> => {
+  return new Promise((resolve) => {
+    const protocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:';
+    const token = encodeURIComponent(getToken() || '');
+    let ws: WebSocket;
+    try {
+      ws = new WebSocket(`${protocol}//${window.location.host}/ws?token=${token}`);
+    } catch (err) {
+      console.log('[Socket] Unable to open:', err);
+      resolve(null);
+      return;
+    }
+
+    const onOpen = () => {
+      ws.removeEventListener('close', onFailed);
+      resolve(ws);
+    };
+    const onFailed = () => {
+      ws.removeEventListener('open', onOpen);
+      resolve(null);
+    };
+    ws.addEventListener('open', onOpen, { once: true });
+    ws.addEventListener('close', onFailed, { once: true });
+  });
+};
+
+// Sends one prompt over the chat socket, resolving when the container reports completion. Frames of
+// other turns on the socket (e.g. an earlier prompt still running) are left to their own listeners.
+export const streamTurnOverSocket = (ws: WebSocket, payload: TurnPayload, onFrame: FrameHandler) => {
+  const cursor: TurnCursor = { lastSeq: 0 };
+  return new Promise<void>((resolve, reject) => {
+    const cleanup = () => {
+      ws.removeEventListener('message', onMessage);
+      ws.removeEventListener('close', onClose);
+    };
+
+    const onMessage = (event: MessageEvent) => {
+      let frame: ServerFrame;
+      try {
+        frame = parseServerFrame(event.data);
+      } catch (e) {
+        // A frame we can't understand means the turn can't be followed reliably
+        cleanup();
+        reject(e);
+        return;
+      }
+      if (frame.turnId !== undefined && frame.turnId !== payload.requestId) return;
+
+      let completed: boolean;
+      try {
+        completed = handleTurnFrame(frame, cursor, onFrame);
+      } catch (e) {
+        cleanup();
+        reject(e);
+        return;
+      }
+      if (completed) {
+        cleanup();
+        resolve();
+      }
+    };
+
+    // The turn keeps running on the container for a while; pick it up over HTTP
+    const onClose = () => {
+      cleanup();
+      resumeTurn(payload.requestId, cursor, onFrame).then(resolve, reject);
+    };
+
+    ws.addEventListener('message', onMessage);
+    ws.addEventListener('close', onClose);
+    ws.send(encodeFrame({ type: 'prompt', ...payload }));
+  });
+};
+
+// Asks the container to interrupt a running turn; the turn still ends with a `complete` frame
+export const cancelTurn = async (requestId: string, ws: WebSocket | null) => {
+  if (ws?.readyState === WebSocket.OPEN) {
+    ws.send(encodeFrame({ type: 'cancel', requestId }));
+    return;
+  }
+  await authFetch(`/query/${encodeURIComponent(requestId)}/cancel`, { method: 'POST' });
+};
+
+export interface PermissionAnswer {
+  requestId: string;
+  permissionId: string;
+  toolName: string;
+  allow: boolean;
+  // Add the tool to the account's allow-list so future calls skip the prompt
+  remember: boolean;
+}
+
+// Answers a permission_request frame; the container replies with permission_resolved
+export const respondToPermission = async (answer: PermissionAnswer, ws: WebSocket | null) => {
+  if (ws?.readyState === WebSocket.OPEN) {
+    ws.send(encodeFrame({ type: 'permission_response', ...answer }));
+    return;
+  }
+  const { requestId, permissionId, ...body } = answer;
+  const res = await authFetch(
+    `/query/${encodeURIComponent(requestId)}/permissions/${encodeURIComponent(permissionId)}`,
+    {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    }
+  );
+  if (!res.ok) {
+    const errorData = await res.json().catch(() => ({}));
+    throw new Error(errorData.error || `HTTP ${res.status}`);
+  }
+};
+
+// NDJSON request to /query, used when the socket is unavailable; a dropped stream is resumed
+export const streamTurnOverHttp = async (payload: TurnPayload, onFrame: FrameHandler) => {
+  const res = await authFetch('/query', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(payload),
+  });
+
+  if (!res.ok) {
+    const errorData = await res.json().catch(() => ({}));
+    if (res.status === 429) {
+      const retryAfter = Number(errorData.retryAfter ?? res.headers.get('Retry-After')) || 0;
+      throw new QuotaError(errorData.code || 'rate_limited', errorData.error || 'Rate limited', retryAfter);
+    }
+    throw new Error(errorData.error || `HTTP ${res.status}`);
+  }
+
+  const cursor: TurnCursor = { lastSeq: 0 };
+  if (!(await readTurnStream(res, cursor, onFrame))) {
+    await resumeTurn(payload.requestId, cursor, onFrame);
+  }
+};
@@ -0,0 +1,17 @@
+import type { TurnUsage } from '../../shared/protocol';
+
+export type { TurnUsage };
+
+export const formatTokens = (tokens: number) =>
+  tokens >= 1000 ? `${(tokens / 1000).toFixed(1)}k` : String(tokens);
+
+export const formatCost = (usd: number) => `$${usd < 0.01 && usd > 0 ? usd.toFixed(4) : usd.toFixed(2)}`;
+
+type UsageSummary = Pick<TurnUsage, 'inputTokens' | 'outputTokens' | 'cacheReadInputTokens' | 'cacheCreationInputTokens' | 'costUsd'>;
+
+// Compact "in / out / cost" summary shown under replies and on session cards; cached
+// prompt tokens count as input
+export const formatUsage = (usage: UsageSummary) => {
+  const input = usage.inputTokens + usage.cacheReadInputTokens + usage.cacheCreationInputTokens;
+  return `${formatTokens(input)} in · ${formatTokens(usage.outputTokens)} out · ${formatCost(usage.costUsd)}`;
+};
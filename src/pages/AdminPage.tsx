@@ -0,0 +1,214 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Button } from '@base-ui/react';
+import { ArrowLeft, Power, RefreshCw, X } from 'lucide-react';
+import { type AdminContainer, evictSession, formatDuration, listContainers, stopContainer } from '../lib/admin';
+
+// Poll often enough that turn durations and pool counts stay current
+const REFRESH_INTERVAL_MS = 5000;
+
+export function AdminPage() {
+  const navigate = useNavigate();
+  const [containers, setContainers] = useState<AdminContainer[] | null>(null);
+  const [now, setNow] = useState(Date.now());
+  const [confirmStop, setConfirmStop] = useState<string | null>(null);
+  const [busy, setBusy] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      const data = await listContainers();
+      setContainers(data.containers);
+      setNow(Date.now());
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load containers');
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+    const timer = setInterval(refresh, REFRESH_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [refresh]);
+
+  const handleStop = async (objectId: string) => {
+    setBusy(objectId);
+    setNotice(null);
+    try {
+      const { stopped } = await stopContainer(objectId);
+      setNotice(stopped ? 'Container stopped' : 'Container was not running');
+      await refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error');
+    } finally {
+      setConfirmStop(null);
+      setBusy(null);
+    }
+  };
+
+  const handleEvict = async (objectId: string, sessionId: string) => {
+    setBusy(sessionId);
+    setNotice(null);
+    try {
+      const { interrupted } = await evictSession(objectId, sessionId);
+      setNotice(interrupted ? 'Turn interrupted; the session is closed when it stops' : 'Session evicted');
+      await refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const running = containers?.filter(c => c.running) ?? [];
+  const stopped = containers?.filter(c => !c.running) ?? [];
+
+  return (
+    <div className="w-full h-full flex flex-col bg-gray-50">
+      {/* Header */}
+      <div className="border-b border-gray-300 bg-white px-6 py-4">
+        <div className="max-w-6xl mx-auto flex items-center justify-between">
+          <div>
+            <h1 className="text-2xl font-mono font-bold uppercase text-gray-900">Admin</h1>
+            <p className="font-mono text-xs text-gray-600 mt-1">
+              {containers ? `${running.length} running container(s)` : 'Containers, pools and active turns'}
+            </p>
+          </div>
+          <div className="flex items-center gap-3">
+            <Button
+              onClick={refresh}
+              className="px-4 py-2 font-mono font-bold uppercase text-xs bg-gray-100 text-gray-900 border border-gray-300 hover:bg-gray-200 hover:border-gray-900 transition-colors duration-200 cursor-pointer flex items-center gap-2"
+            >
+              <RefreshCw size={14} />
+              Refresh
+            </Button>
+            <Button
+              onClick={() => navigate('/')}
+              className="px-4 py-2 font-mono font-bold uppercase text-xs bg-gray-100 text-gray-900 border border-gray-300 hover:bg-gray-200 hover:border-gray-900 transition-colors duration-200 cursor-pointer flex items-center gap-2"
+            >
+              <ArrowLeft size={14} />
+              Sessions
+            </Button>
+          </div>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto px-6 py-4">
+        <div className="max-w-6xl mx-auto space-y-4">
+          {notice && (
+            <div className="bg-white border border-gray-300 px-4 py-3">
+              <p className="font-mono text-xs text-gray-900">{notice}</p>
+            </div>
+          )}
+
+          {error && (
+            <div className="bg-white border border-gray-300 text-gray-900 px-4 py-3">
+              <p className="font-mono text-xs font-bold uppercase text-gray-900">Error</p>
+              <p className="font-mono text-xs mt-2 text-gray-600">{error}</p>
+            </div>
+          )}
+
+          {containers && running.length === 0 && (
+            <p className="font-mono text-sm text-gray-600">No containers are running.</p>
+          )}
+
+          {running.map((container) => (
+            <div key={container.objectId} className="border border-gray-300 bg-white">
+              <div className="border-b border-gray-300 bg-gray-100 px-4 py-3 flex items-center justify-between gap-4">
+                <div className="min-w-0">
+                  <h2 className="text-xs font-mono font-bold uppercase text-gray-900 truncate">
+                    {container.accountId ?? 'Unknown account'}
+                  </h2>
+                  <p className="font-mono text-[10px] text-gray-600 truncate">{container.objectId}</p>
+                </div>
+                <Button
+                  onClick={() => (confirmStop === container.objectId ? handleStop(container.objectId) : setConfirmStop(container.objectId))}
+                  disabled={busy === container.objectId}
+                  className="px-4 py-2 font-mono font-bold uppercase text-xs bg-gray-100 text-gray-900 border border-gray-300 hover:bg-gray-200 hover:border-gray-900 transition-colors duration-200 disabled:opacity-50 disabled:cursor-not-allowed cursor-pointer flex items-center gap-2 shrink-0"
+                >
+                  <Power size={14} />
+                  {confirmStop === container.objectId ? 'Confirm Stop' : 'Force Stop'}
+                </Button>
+              </div>
+
+              {container.status ? (
+                <div className="p-4 space-y-4">
+                  <p className="font-mono text-xs text-gray-600">
+                    Up {formatDuration(container.status.uptime)} · pool {container.status.poolSize} · {container.status.available} available · {container.status.turns.length} active turn(s)
+                  </p>
+
+                  <div>
+                    <h3 className="font-mono text-[10px] font-bold uppercase text-gray-500 mb-2">Active Turns</h3>
+                    {container.status.turns.length === 0 ? (
+                      <p className="font-mono text-xs text-gray-600">None</p>
+                    ) : (
+                      <ul className="space-y-1">
+                        {container.status.turns.map((turn) => (
+                          <li key={turn.requestId} className="font-mono text-xs text-gray-900 flex gap-3">
+                            <span className="w-20 shrink-0">{formatDuration(now - turn.startedAt)}</span>
+                            <span className="truncate">{turn.sessionId}</span>
+                            {turn.cancelled && <span className="text-gray-500 uppercase">cancelling</span>}
+                            {turn.pendingPermissions > 0 && (
+                              <span className="text-gray-500 uppercase">awaiting approval</span>
+                            )}
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </div>
+
+                  <div>
+                    <h3 className="font-mono text-[10px] font-bold uppercase text-gray-500 mb-2">Pool Sessions</h3>
+                    <ul className="divide-y divide-gray-200 border border-gray-200">
+                      {container.status.sessions.map((session) => (
+                        <li key={session.sessionId} className="px-3 py-2 flex items-center justify-between gap-3">
+                          <div className="min-w-0">
+                            <p className="font-mono text-xs text-gray-900 truncate">{session.sessionId}</p>
+                            <p className="font-mono text-[10px] uppercase text-gray-500">
+                              {session.inUse ? 'in use' : session.prewarmed ? 'prewarmed' : 'idle'}
+                              {session.broken && ' · closing'} · last used {formatDuration(now - session.lastUsed)} ago
+                            </p>
+                          </div>
+                          <Button
+                            onClick={() => handleEvict(container.objectId, session.sessionId)}
+                            disabled={busy === session.sessionId}
+                            title="Evict session"
+                            className="p-1 hover:text-gray-900 transition-colors duration-200 cursor-pointer text-gray-600 bg-transparent border-0 disabled:opacity-50"
+                          >
+                            <X size={14} />
+                          </Button>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                </div>
+              ) : (
+                <p className="p-4 font-mono text-xs text-gray-600">
+                  Status unavailable{container.error ? `: ${container.error}` : ''}
+                </p>
+              )}
+            </div>
+          ))}
+
+          {stopped.length > 0 && (
+            <div className="border border-gray-300 bg-white">
+              <div className="border-b border-gray-300 bg-gray-100 px-4 py-3">
+                <h2 className="text-xs font-mono font-bold uppercase text-gray-900">Recently Stopped</h2>
+              </div>
+              <ul className="divide-y divide-gray-200">
+                {stopped.map((container) => (
+                  <li key={container.objectId} className="px-4 py-2 font-mono text-xs text-gray-600 flex justify-between gap-3">
+                    <span className="truncate">{container.accountId ?? container.objectId}</span>
+                    <span className="shrink-0">{new Date(container.stoppedAt ?? 0).toLocaleString()}</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
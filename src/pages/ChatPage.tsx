@@ -1,13 +1,36 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { Button, Tooltip } from '@base-ui/react';
-import { MessageCircle } from 'lucide-react';
+import { FolderOpen, MessageCircle, Paperclip, Plug, Square, X } from 'lucide-react';
+import { authFetch } from '../lib/auth';
+import { uploadToWorkspace } from '../lib/files';
+import { formatUsage, type TurnUsage } from '../lib/usage';
+import { FilePanel } from '../components/FilePanel';
+import { McpPanel } from '../components/McpPanel';
+import {
+  QuotaError,
+  type McpServerInfo,
+  type PermissionRequestFrame,
+  type PermissionResolvedFrame,
+  type PromptFrame,
+  type ServerFrame,
+  type SkillInfo,
+  type ToolInfo,
+  type TurnPayload,
+  cancelTurn,
+  openChatSocket,
+  respondToPermission,
+  streamTurnOverHttp,
+  streamTurnOverSocket,
+} from '../lib/stream';
 
 interface TextMessage {
   type: 'text';
   role: 'user' | 'assistant';
   content: string;
   timestamp: number;
+  // Tokens and cost of the turn this reply ended
+  usage?: TurnUsage;
 }
 
 interface ToolCallMessage {
@@ -31,7 +54,45 @@ interface SystemMessage {
   timestamp: number;
 }
 
-type Message = TextMessage | ToolCallMessage | SkillInvocationMessage | SystemMessage;
+interface PermissionRequestMessage {
+  type: 'permission_request';
+  role: 'assistant';
+  requestId: string;
+  permissionId: string;
+  toolName: string;
+  input: Record<string, unknown>;
+  status: 'pending' | 'allowed' | 'denied';
+  reason?: string;
+  timestamp: number;
+}
+
+type Message = TextMessage | ToolCallMessage | SkillInvocationMessage | SystemMessage | PermissionRequestMessage;
+
+// Build an approval card from a permission_request frame
+const permissionMessageFromFrame = (frame: PermissionRequestFrame, timestamp: number): PermissionRequestMessage => ({
+  type: 'permission_request',
+  role: 'assistant',
+  requestId: frame.requestId,
+  permissionId: frame.permissionId,
+  toolName: frame.toolName,
+  input: frame.input,
+  status: 'pending',
+  timestamp
+});
+
+// Apply a permission_resolved frame to the matching approval card
+const applyPermissionResolution = (msgs: Message[], frame: PermissionResolvedFrame): Message[] =>
+  msgs.map(m =>
+    m.type === 'permission_request' && m.permissionId === frame.permissionId
+      ? { ...m, status: frame.behavior === 'allow' ? 'allowed' : 'denied', reason: frame.reason }
+      : m
+  );
+
+interface AgentProfile {
+  name: string;
+  description: string;
+  model: string;
+}
 
 interface Session {
   id: string;
@@ -40,6 +101,69 @@ interface Session {
   preview: string;
 }
 
+interface StoredMessage {
+  role: 'user' | 'agent';
+  frame: PromptFrame | ServerFrame;
+  createdAt: number;
+}
+
+// Rebuild the transcript from server-side history, mirroring how frames are handled while streaming
+const historyToMessages = (stored: StoredMessage[]): Message[] => {
+  let result: Message[] = [];
+  let assistantText = '';
+  let lastTimestamp = 0;
+  let turnUsage: TurnUsage | undefined;
+
+  const flushAssistantText = () => {
+    if (assistantText) {
+      result.push({ type: 'text', role: 'assistant', content: assistantText, timestamp: lastTimestamp, usage: turnUsage });
+      assistantText = '';
+    }
+    turnUsage = undefined;
+  };
+
+  for (const { role, frame, createdAt } of stored) {
+    lastTimestamp = createdAt;
+
+    if (role === 'user' || frame.type === 'prompt') {
+      flushAssistantText();
+      result.push({ type: 'text', role: 'user', content: frame.type === 'prompt' ? frame.prompt : '', timestamp: createdAt });
+      continue;
+    }
+
+    if (frame.type === 'text_chunk') {
+      assistantText += frame.content;
+    }
+
+    if (frame.type === 'complete') {
+      turnUsage = frame.usage;
+    }
+
+    if (frame.type === 'skill_invocation') {
+      result.push({ type: 'skill_invocation', role: 'assistant', command: frame.command, timestamp: createdAt });
+    }
+
+    if (frame.type === 'permission_request') {
+      result.push(permissionMessageFromFrame(frame, createdAt));
+    }
+
+    if (frame.type === 'permission_resolved') {
+      result = applyPermissionResolution(result, frame);
+    }
+
+    if (frame.type === 'message' && frame.data.type === 'assistant') {
+      for (const block of frame.data.message?.content || []) {
+        if (block.type === 'tool_use') {
+          result.push({ type: 'tool_call', role: 'assistant', toolName: block.name || '', input: block.input || {}, timestamp: createdAt });
+        }
+      }
+    }
+  }
+
+  flushAssistantText();
+  return result;
+};
+
 export function ChatPage() {
   const navigate = useNavigate();
   const { sessionId } = useParams();
@@ -49,27 +173,94 @@ export function ChatPage() {
   const [streamingMessage, setStreamingMessage] = useState<string>('');
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [skills, setSkills] = useState<{ name: string; description: string }[]>([]);
-  const [mcpServers, setMcpServers] = useState<{ name: string; description: string }[]>([]);
+  // Set when the Worker rejected a turn for quota reasons; cleared once the retry time passes
+  const [quotaNotice, setQuotaNotice] = useState<{ message: string; retryAt: number } | null>(null);
+  const [quotaSecondsLeft, setQuotaSecondsLeft] = useState(0);
+  const [skills, setSkills] = useState<SkillInfo[]>([]);
+  const [mcpServers, setMcpServers] = useState<McpServerInfo[]>([]);
+  const [customTools, setCustomTools] = useState<ToolInfo[]>([]);
   const [poolStatus, setPoolStatus] = useState<{ ready: boolean; available: number } | null>(null);
+  const [stopping, setStopping] = useState(false);
+  // Why the running turn is waiting: queued behind earlier turns, or reconnecting to the container
+  const [turnStatus, setTurnStatus] = useState<string | null>(null);
+  const [models, setModels] = useState<string[]>([]);
+  const [profiles, setProfiles] = useState<AgentProfile[]>([]);
+  // Empty means "use the profile's (or the Worker's default) model"
+  const [selectedModel, setSelectedModel] = useState(() => localStorage.getItem('agentModel') || '');
+  const [selectedProfile, setSelectedProfile] = useState(() => localStorage.getItem('agentProfile') || '');
+  const [sidePanel, setSidePanel] = useState<'files' | 'mcp' | null>(null);
+  const [filesVersion, setFilesVersion] = useState(0);
+  // Workspace paths uploaded for the next prompt
+  const [attachments, setAttachments] = useState<string[]>([]);
+  const [uploading, setUploading] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
+  // New chats upload into a draft workspace; the container links it to the session ID once assigned
+  const draftWorkspaceRef = useRef(`draft-${crypto.randomUUID()}`);
+  const workspaceId = selectedSessionId || draftWorkspaceRef.current;
+  const socketRef = useRef<WebSocket | null>(null);
+  const socketUnavailableRef = useRef(false);
+  const activeTurnRef = useRef<{ requestId: string; socket: WebSocket | null } | null>(null);
 
-  const getAccountId = () => {
-    let accountId = localStorage.getItem('agentAccountId');
-    if (!accountId) {
-      accountId = `user-${crypto.randomUUID()}`;
-      localStorage.setItem('agentAccountId', accountId);
+  // Reuse the open chat socket, reconnecting if it dropped; null means fall back to NDJSON
+  const getChatSocket = async () => {
+    if (socketRef.current?.readyState === WebSocket.OPEN) {
+      return socketRef.current;
     }
-    return accountId;
+    if (socketUnavailableRef.current) {
+      return null;
+    }
+
+    const socket = await openChatSocket();
+    if (!socket) {
+      console.log('[Socket] Upgrade failed, falling back to NDJSON');
+      socketUnavailableRef.current = true;
+      return null;
+    }
+    socketRef.current = socket;
+    return socket;
   };
 
-  // Check server config
+  // Close the chat socket when leaving the page
+  useEffect(() => {
+    return () => {
+      socketRef.current?.close();
+      socketRef.current = null;
+    };
+  }, []);
+
+  // Count down until a rate-limited turn may be retried
+  useEffect(() => {
+    if (!quotaNotice) return;
+    const tick = () => {
+      const secondsLeft = Math.max(0, Math.ceil((quotaNotice.retryAt - Date.now()) / 1000));
+      setQuotaSecondsLeft(secondsLeft);
+      if (secondsLeft === 0) setQuotaNotice(null);
+    };
+    tick();
+    const interval = setInterval(tick, 1000);
+    return () => clearInterval(interval);
+  }, [quotaNotice]);
+
+  // Check server config; skills and MCP servers come from the account's container once it's running
   useEffect(() => {
     const checkConfig = async () => {
       try {
-        const res = await fetch('/config');
+        const res = await authFetch('/config');
         const data = await res.json();
         setSkills(data.skills || []);
         setMcpServers(data.mcpServers || []);
+        setCustomTools(data.tools || []);
+        setModels(data.models || []);
+        setProfiles(data.profiles || []);
+        // Forget selections the Worker no longer allows
+        if (!(data.models || []).includes(localStorage.getItem('agentModel'))) {
+          setSelectedModel('');
+          localStorage.removeItem('agentModel');
+        }
+        if (!(data.profiles || []).some((p: AgentProfile) => p.name === localStorage.getItem('agentProfile'))) {
+          setSelectedProfile('');
+          localStorage.removeItem('agentProfile');
+        }
       } catch (err) {
         console.error('Failed to check config:', err);
       }
@@ -82,12 +273,14 @@ export function ChatPage() {
     const warmupContainer = async () => {
       try {
         console.log('[Warmup] Pre-warming container...');
-        await fetch('/warmup', {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ accountId: getAccountId() })
-        });
+        await authFetch('/warmup', { method: 'POST' });
         console.log('[Warmup] Container ready');
+        // Now the container can report what it loaded
+        const res = await authFetch('/config');
+        const data = await res.json();
+        setSkills(data.skills || []);
+        setMcpServers(data.mcpServers || []);
+        setCustomTools(data.tools || []);
       } catch (err) {
         console.log('[Warmup] Failed (non-critical):', err);
       }
@@ -102,7 +295,7 @@ export function ChatPage() {
 
     const checkPoolStatus = async () => {
       try {
-        const response = await fetch(`/pool-status?accountId=${getAccountId()}`);
+        const response = await authFetch('/pool-status');
         if (response.ok) {
           const data = await response.json();
           setPoolStatus({ ready: data.poolReady, available: data.available });
@@ -144,7 +337,21 @@ export function ChatPage() {
     return [];
   };
 
-  const loadSessionHistory = (id: string) => {
+  // Server-side history first, falling back to the browser's local copy
+  const loadSessionHistory = async (id: string) => {
+    try {
+      const res = await authFetch(`/sessions/${encodeURIComponent(id)}/messages`);
+      if (res.ok) {
+        const data = await res.json();
+        if (data.messages?.length) {
+          setMessages(historyToMessages(data.messages));
+          return;
+        }
+      }
+    } catch (err) {
+      console.log('[History] Server history unavailable, using local copy:', err);
+    }
+
     try {
       const key = `agentSessionHistory_${id}`;
       const history = localStorage.getItem(key);
@@ -167,12 +374,57 @@ export function ChatPage() {
     }
   };
 
-  // Session expires after container timeout
-  const isSessionArchived = (): boolean => {
-    if (messages.length === 0) return false;
-    const lastMessage = messages[messages.length - 1];
-    const minutesElapsed = (Date.now() - lastMessage.timestamp) / 1000 / 60;
-    return minutesElapsed > 30;
+  const selectModel = (model: string) => {
+    setSelectedModel(model);
+    localStorage.setItem('agentModel', model);
+  };
+
+  const selectProfile = (profile: string) => {
+    setSelectedProfile(profile);
+    localStorage.setItem('agentProfile', profile);
+  };
+
+  const attachFiles = async (fileList: FileList | null) => {
+    const files = Array.from(fileList || []);
+    if (files.length === 0) return;
+
+    setUploading(true);
+    try {
+      const stored = await uploadToWorkspace(workspaceId, files);
+      setAttachments(prev => Array.from(new Set([...prev, ...stored.map(f => f.path)])));
+      setFilesVersion(v => v + 1);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Unknown error';
+      setError(`Failed to upload files: ${errorMessage}`);
+    } finally {
+      setUploading(false);
+      if (fileInputRef.current) fileInputRef.current.value = '';
+    }
+  };
+
+  const stopTurn = async () => {
+    const turn = activeTurnRef.current;
+    if (!turn || stopping) return;
+
+    setStopping(true);
+    try {
+      await cancelTurn(turn.requestId, turn.socket);
+    } catch (err) {
+      console.error('Failed to cancel turn:', err);
+      setStopping(false);
+    }
+  };
+
+  const answerPermission = async (request: PermissionRequestMessage, allow: boolean, remember = false) => {
+    try {
+      await respondToPermission(
+        { requestId: request.requestId, permissionId: request.permissionId, toolName: request.toolName, allow, remember },
+        activeTurnRef.current?.socket ?? null
+      );
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Unknown error';
+      setError(`Failed to answer permission request: ${errorMessage}`);
+    }
   };
 
   const handleQuery = async (e: React.FormEvent) => {
@@ -182,9 +434,7 @@ export function ChatPage() {
       setError('Please enter a prompt');
       return;
     }
-
-    if (isSessionArchived()) {
-      setError('This session has expired. Please start a new chat.');
+    if (quotaNotice) {
       return;
     }
 
@@ -197,83 +447,101 @@ export function ChatPage() {
     setError(null);
     setStreamingMessage('');
 
+    let assistantTextContent = '';
+    // Set by the first frame of the turn itself; queue and reconnect notices don't count
+    let turnStarted = false;
     try {
-      const res = await fetch('/query', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          prompt,
-          sessionId: selectedSessionId,
-          accountId: getAccountId(),
-        }),
-      });
-
-      if (!res.ok) {
-        const errorData = await res.json();
-        throw new Error(errorData.error || `HTTP ${res.status}`);
-      }
-
-      let assistantTextContent = '';
+      let cancelled = false;
+      let turnUsage: TurnUsage | undefined;
       const responseMessages: Message[] = [];
-      const reader = res.body?.getReader();
-      const decoder = new TextDecoder();
 
-      if (reader) {
-        while (true) {
-          const { done, value } = await reader.read();
-          if (done) break;
+      const handleFrame = (msg: ServerFrame) => {
+        if (msg.type === 'queued') {
+          setTurnStatus(`Queued behind ${msg.position} turn(s) on this session`);
+          return;
+        }
+        // Text streamed so far is kept; the turn continues where it left off once reconnected
+        if (msg.type === 'reconnecting') {
+          setTurnStatus(`Connection to the agent dropped, reconnecting (attempt ${msg.attempt})...`);
+          return;
+        }
+        setTurnStatus(null);
+        if (msg.type !== 'draining') turnStarted = true;
 
-          const chunk = decoder.decode(value);
-          const lines = chunk.split('\n').filter(line => line.trim());
+        if (msg.type === 'session_created') {
+          setSelectedSessionId(msg.claudeSessionId);
+          localStorage.setItem('agentCurrentSessionId', msg.claudeSessionId);
+        }
 
-          for (const line of lines) {
-            try {
-              const msg = JSON.parse(line);
+        if (msg.type === 'complete') {
+          cancelled = !!msg.cancelled;
+          turnUsage = msg.usage;
+        }
 
-              if (msg.type === 'session_created' && msg.claudeSessionId) {
-                setSelectedSessionId(msg.claudeSessionId);
-                localStorage.setItem('agentCurrentSessionId', msg.claudeSessionId);
-              }
+        if (msg.type === 'text_chunk') {
+          assistantTextContent += msg.content;
+          setStreamingMessage(assistantTextContent);
+        }
 
-              if (msg.type === 'text_chunk') {
-                assistantTextContent += msg.content;
-                setStreamingMessage(assistantTextContent);
-              }
+        if (msg.type === 'skill_invocation') {
+          const skillMsg: SkillInvocationMessage = {
+            type: 'skill_invocation',
+            role: 'assistant',
+            command: msg.command,
+            timestamp: Date.now()
+          };
+          responseMessages.push(skillMsg);
+          setMessages(prev => [...prev, skillMsg]);
+        }
+
+        if (msg.type === 'permission_request') {
+          const permissionMsg = permissionMessageFromFrame(msg, Date.now());
+          responseMessages.push(permissionMsg);
+          setMessages(prev => [...prev, permissionMsg]);
+        }
+
+        if (msg.type === 'permission_resolved') {
+          const resolved = applyPermissionResolution(responseMessages, msg);
+          responseMessages.splice(0, responseMessages.length, ...resolved);
+          setMessages(prev => applyPermissionResolution(prev, msg));
+        }
 
-              if (msg.type === 'skill_invocation') {
-                const skillMsg: SkillInvocationMessage = {
-                  type: 'skill_invocation',
+        if (msg.type === 'message' && msg.data.type === 'assistant') {
+          const assistantData = msg.data;
+          if (assistantData.message?.content) {
+            for (const block of assistantData.message.content) {
+              if (block.type === 'tool_use') {
+                const toolMsg: ToolCallMessage = {
+                  type: 'tool_call',
                   role: 'assistant',
-                  command: msg.command,
+                  toolName: block.name || '',
+                  input: block.input || {},
                   timestamp: Date.now()
                 };
-                responseMessages.push(skillMsg);
-                setMessages(prev => [...prev, skillMsg]);
+                responseMessages.push(toolMsg);
+                setMessages(prev => [...prev, toolMsg]);
               }
-
-              if (msg.type === 'message' && msg.data?.type === 'assistant') {
-                const assistantData = msg.data;
-                if (assistantData.message?.content) {
-                  for (const block of assistantData.message.content) {
-                    if (block.type === 'tool_use') {
-                      const toolMsg: ToolCallMessage = {
-                        type: 'tool_call',
-                        role: 'assistant',
-                        toolName: block.name,
-                        input: block.input,
-                        timestamp: Date.now()
-                      };
-                      responseMessages.push(toolMsg);
-                      setMessages(prev => [...prev, toolMsg]);
-                    }
-                  }
-                }
-              }
-            } catch (e) {
-              console.error('Failed to parse message:', e);
             }
           }
         }
+      };
+
+      const payload: TurnPayload = {
+        prompt,
+        sessionId: selectedSessionId,
+        requestId: crypto.randomUUID(),
+        ...(selectedProfile && { profile: selectedProfile }),
+        ...(selectedModel && { options: { model: selectedModel } }),
+        workspace: workspaceId,
+        ...(attachments.length > 0 && { attachments }),
+      };
+      setAttachments([]);
+      const socket = await getChatSocket();
+      activeTurnRef.current = { requestId: payload.requestId, socket };
+      if (socket) {
+        await streamTurnOverSocket(socket, payload, handleFrame);
+      } else {
+        await streamTurnOverHttp(payload, handleFrame);
       }
 
       if (assistantTextContent) {
@@ -281,12 +549,19 @@ export function ChatPage() {
           type: 'text',
           role: 'assistant',
           content: assistantTextContent,
-          timestamp: Date.now()
+          timestamp: Date.now(),
+          usage: turnUsage
         };
         responseMessages.push(assistantMsg);
         setMessages(prev => [...prev, assistantMsg]);
       }
 
+      if (cancelled) {
+        const cancelMsg: SystemMessage = { type: 'system', content: 'Turn stopped', timestamp: Date.now() };
+        responseMessages.push(cancelMsg);
+        setMessages(prev => [...prev, cancelMsg]);
+      }
+
       const allMessages = [...updatedMessages, ...responseMessages];
 
       if (selectedSessionId) {
@@ -314,11 +589,34 @@ export function ChatPage() {
         localStorage.setItem('agentSessions', JSON.stringify(updated));
       }
     } catch (err) {
+      if (err instanceof QuotaError && turnStarted) {
+        // Stopped partway (e.g. the container drained): keep what it produced and offer the prompt again
+        const interrupted: Message[] = [];
+        if (assistantTextContent) {
+          interrupted.push({ type: 'text', role: 'assistant', content: assistantTextContent, timestamp: Date.now() });
+        }
+        interrupted.push({ type: 'system', content: 'Turn interrupted', timestamp: Date.now() });
+        setMessages(prev => [...prev, ...interrupted]);
+        setPrompt(userMessage.content);
+        setError(`Turn interrupted: ${err.message}. Send the prompt again to retry.`);
+        return;
+      }
+      if (err instanceof QuotaError) {
+        // The turn never ran: put the prompt back so it can be resent once the limit clears
+        setMessages(messages);
+        setPrompt(userMessage.content);
+        setQuotaNotice({ message: err.message, retryAt: Date.now() + err.retryAfter * 1000 });
+        return;
+      }
       const errorMessage = err instanceof Error ? err.message : 'Unknown error';
       setError(errorMessage);
       console.error('Query error:', err);
     } finally {
+      activeTurnRef.current = null;
+      setFilesVersion(v => v + 1);
       setLoading(false);
+      setStopping(false);
+      setTurnStatus(null);
       setStreamingMessage('');
     }
   };
@@ -345,238 +643,411 @@ export function ChatPage() {
                 </p>
               </div>
             </div>
+            <div className="flex items-center gap-2">
+              <Button
+                onClick={() => setSidePanel(open => (open === 'mcp' ? null : 'mcp'))}
+                className={`px-3 py-2 font-mono font-bold uppercase text-xs border transition-colors duration-200 cursor-pointer ${
+                  sidePanel === 'mcp'
+                    ? 'bg-gray-900 text-white border-gray-900'
+                    : 'bg-white text-gray-900 border-gray-300 hover:border-gray-900'
+                }`}
+              >
+                <span className="flex items-center gap-2">
+                  <Plug size={14} />
+                  MCP
+                </span>
+              </Button>
+              <Button
+                onClick={() => setSidePanel(open => (open === 'files' ? null : 'files'))}
+                className={`px-3 py-2 font-mono font-bold uppercase text-xs border transition-colors duration-200 cursor-pointer ${
+                  sidePanel === 'files'
+                    ? 'bg-gray-900 text-white border-gray-900'
+                    : 'bg-white text-gray-900 border-gray-300 hover:border-gray-900'
+                }`}
+              >
+                <span className="flex items-center gap-2">
+                  <FolderOpen size={14} />
+                  Files
+                </span>
+              </Button>
+            </div>
           </div>
         </div>
 
-        {/* Messages Area */}
-        <div className="flex-1 overflow-y-auto px-6 py-6">
-          <div className="max-w-6xl mx-auto space-y-4">
-            {messages.length === 0 && !error && (
-              <div className="text-center py-12">
-                <div className="text-gray-400 mb-4">
-                  <MessageCircle size={64} className="mx-auto opacity-50" strokeWidth={1.5} />
-                </div>
-                <p className="font-mono text-sm text-gray-600">
-                  Start a conversation by typing your prompt below
-                </p>
-              </div>
-            )}
-
-            {messages.map((message, idx) => {
-              if (message.type === 'text') {
-                return (
-                  <div
-                    key={idx}
-                    className={`flex ${message.role === 'user' ? 'justify-end' : 'justify-start'}`}
-                  >
-                    <div
-                      className={`max-w-2xl px-4 py-3 ${
-                        message.role === 'user'
-                          ? 'bg-gray-900 text-white'
-                          : 'bg-white text-gray-900 border border-gray-300'
-                      }`}
-                    >
-                      <p className="font-mono text-xs text-gray-500 mb-2">
-                        {new Date(message.timestamp).toLocaleTimeString()}
-                      </p>
-                      <p className="font-mono text-sm leading-relaxed whitespace-pre-wrap break-word">
-                        {message.content}
-                      </p>
+        <div className="flex-1 flex min-h-0">
+          <div className="flex-1 flex flex-col min-w-0">
+            {/* Messages Area */}
+            <div className="flex-1 overflow-y-auto px-6 py-6">
+              <div className="max-w-6xl mx-auto space-y-4">
+                {messages.length === 0 && !error && (
+                  <div className="text-center py-12">
+                    <div className="text-gray-400 mb-4">
+                      <MessageCircle size={64} className="mx-auto opacity-50" strokeWidth={1.5} />
                     </div>
+                    <p className="font-mono text-sm text-gray-600">
+                      Start a conversation by typing your prompt below
+                    </p>
                   </div>
-                );
-              }
+                )}
 
-              if (message.type === 'tool_call') {
-                return (
-                  <div key={idx} className="flex justify-start">
-                    <div className="max-w-2xl px-4 py-3 bg-blue-50 text-gray-900 border border-blue-300 rounded">
-                      <p className="font-mono text-xs font-bold uppercase text-blue-900 mb-2">
-                        Tool Call
-                      </p>
-                      <p className="font-mono text-xs text-blue-700 mb-2">
-                        <span className="font-bold">Tool:</span> {message.toolName}
-                      </p>
-                      <pre className="font-mono text-xs text-blue-700 mt-2 bg-white p-2 rounded border border-blue-200 overflow-x-auto">
-                        {JSON.stringify(message.input, null, 2)}
-                      </pre>
-                    </div>
-                  </div>
-                );
-              }
+                {messages.map((message, idx) => {
+                  if (message.type === 'text') {
+                    return (
+                      <div
+                        key={idx}
+                        className={`flex ${message.role === 'user' ? 'justify-end' : 'justify-start'}`}
+                      >
+                        <div
+                          className={`max-w-2xl px-4 py-3 ${
+                            message.role === 'user'
+                              ? 'bg-gray-900 text-white'
+                              : 'bg-white text-gray-900 border border-gray-300'
+                          }`}
+                        >
+                          <p className="font-mono text-xs text-gray-500 mb-2">
+                            {new Date(message.timestamp).toLocaleTimeString()}
+                          </p>
+                          <p className="font-mono text-sm leading-relaxed whitespace-pre-wrap break-word">
+                            {message.content}
+                          </p>
+                          {message.usage && (
+                            <p className="font-mono text-[10px] uppercase text-gray-400 mt-2">
+                              {formatUsage(message.usage)}
+                            </p>
+                          )}
+                        </div>
+                      </div>
+                    );
+                  }
 
-              if (message.type === 'skill_invocation') {
-                return (
-                  <div key={idx} className="flex justify-start">
-                    <div className="max-w-2xl px-4 py-3 bg-purple-50 text-gray-900 border border-purple-300 rounded">
-                      <p className="font-mono text-xs font-bold uppercase text-purple-900 mb-2">
-                        Skill Invocation
-                      </p>
-                      <p className="font-mono text-sm text-purple-700">
-                        Command: <span className="font-bold">{message.command}</span>
+                  if (message.type === 'tool_call') {
+                    return (
+                      <div key={idx} className="flex justify-start">
+                        <div className="max-w-2xl px-4 py-3 bg-blue-50 text-gray-900 border border-blue-300 rounded">
+                          <p className="font-mono text-xs font-bold uppercase text-blue-900 mb-2">
+                            Tool Call
+                          </p>
+                          <p className="font-mono text-xs text-blue-700 mb-2">
+                            <span className="font-bold">Tool:</span> {message.toolName}
+                          </p>
+                          <pre className="font-mono text-xs text-blue-700 mt-2 bg-white p-2 rounded border border-blue-200 overflow-x-auto">
+                            {JSON.stringify(message.input, null, 2)}
+                          </pre>
+                        </div>
+                      </div>
+                    );
+                  }
+
+                  if (message.type === 'permission_request') {
+                    return (
+                      <div key={idx} className="flex justify-start">
+                        <div className="max-w-2xl px-4 py-3 bg-amber-50 text-gray-900 border border-amber-300 rounded">
+                          <p className="font-mono text-xs font-bold uppercase text-amber-900 mb-2">
+                            Permission Request
+                          </p>
+                          <p className="font-mono text-xs text-amber-700 mb-2">
+                            <span className="font-bold">Tool:</span> {message.toolName}
+                          </p>
+                          <pre className="font-mono text-xs text-amber-700 mt-2 bg-white p-2 rounded border border-amber-200 overflow-x-auto">
+                            {JSON.stringify(message.input, null, 2)}
+                          </pre>
+                          {message.status === 'pending' ? (
+                            <div className="flex gap-2 mt-3">
+                              <Button
+                                onClick={() => answerPermission(message, true)}
+                                className="px-3 py-1 font-mono font-bold uppercase text-[10px] bg-gray-900 text-white border border-gray-900 hover:bg-white hover:text-gray-900 transition-colors duration-200 cursor-pointer"
+                              >
+                                Allow
+                              </Button>
+                              <Button
+                                onClick={() => answerPermission(message, true, true)}
+                                className="px-3 py-1 font-mono font-bold uppercase text-[10px] bg-white text-gray-900 border border-gray-900 hover:bg-gray-900 hover:text-white transition-colors duration-200 cursor-pointer"
+                              >
+                                Always Allow
+                              </Button>
+                              <Button
+                                onClick={() => answerPermission(message, false)}
+                                className="px-3 py-1 font-mono font-bold uppercase text-[10px] bg-gray-100 text-gray-900 border border-gray-300 hover:bg-gray-200 hover:border-gray-900 transition-colors duration-200 cursor-pointer"
+                              >
+                                Deny
+                              </Button>
+                            </div>
+                          ) : (
+                            <p className="font-mono text-xs text-amber-700 mt-2">
+                              <span className="font-bold uppercase">{message.status}</span>
+                              {message.reason && ` — ${message.reason}`}
+                            </p>
+                          )}
+                        </div>
+                      </div>
+                    );
+                  }
+
+                  if (message.type === 'skill_invocation') {
+                    return (
+                      <div key={idx} className="flex justify-start">
+                        <div className="max-w-2xl px-4 py-3 bg-purple-50 text-gray-900 border border-purple-300 rounded">
+                          <p className="font-mono text-xs font-bold uppercase text-purple-900 mb-2">
+                            Skill Invocation
+                          </p>
+                          <p className="font-mono text-sm text-purple-700">
+                            Command: <span className="font-bold">{message.command}</span>
+                          </p>
+                        </div>
+                      </div>
+                    );
+                  }
+
+                  if (message.type === 'system') {
+                    return (
+                      <div key={idx} className="flex justify-center">
+                        <div className="max-w-2xl px-4 py-2 bg-gray-100 text-gray-600 border border-gray-300 rounded text-center">
+                          <p className="font-mono text-xs">{message.content}</p>
+                        </div>
+                      </div>
+                    );
+                  }
+
+                  return null;
+                })}
+
+                {streamingMessage && (
+                  <div className="flex justify-start">
+                    <div className="max-w-2xl px-4 py-3 bg-white text-gray-900 border border-gray-300">
+                      <p className="font-mono text-xs text-gray-500 mb-2">{turnStatus ?? 'Streaming...'}</p>
+                      <p className="font-mono text-sm leading-relaxed whitespace-pre-wrap break-word">
+                        {streamingMessage}
                       </p>
                     </div>
                   </div>
-                );
-              }
+                )}
 
-              if (message.type === 'system') {
-                return (
-                  <div key={idx} className="flex justify-center">
-                    <div className="max-w-2xl px-4 py-2 bg-gray-100 text-gray-600 border border-gray-300 rounded text-center">
-                      <p className="font-mono text-xs">{message.content}</p>
+                {loading && !streamingMessage && (
+                  <div className="flex justify-start">
+                    <div className="bg-white text-gray-900 border border-gray-300 px-4 py-3">
+                      <div className="flex gap-2">
+                        <div className="w-2 h-2 bg-gray-400 rounded-full animate-bounce" />
+                        <div className="w-2 h-2 bg-gray-400 rounded-full animate-bounce" style={{ animationDelay: '0.1s' }} />
+                        <div className="w-2 h-2 bg-gray-400 rounded-full animate-bounce" style={{ animationDelay: '0.2s' }} />
+                      </div>
+                      {turnStatus && <p className="font-mono text-xs text-gray-500 mt-2">{turnStatus}</p>}
                     </div>
                   </div>
-                );
-              }
+                )}
 
-              return null;
-            })}
-
-            {streamingMessage && (
-              <div className="flex justify-start">
-                <div className="max-w-2xl px-4 py-3 bg-white text-gray-900 border border-gray-300">
-                  <p className="font-mono text-xs text-gray-500 mb-2">Streaming...</p>
-                  <p className="font-mono text-sm leading-relaxed whitespace-pre-wrap break-word">
-                    {streamingMessage}
-                  </p>
-                </div>
-              </div>
-            )}
-
-            {loading && !streamingMessage && (
-              <div className="flex justify-start">
-                <div className="bg-white text-gray-900 border border-gray-300 px-4 py-3">
-                  <div className="flex gap-2">
-                    <div className="w-2 h-2 bg-gray-400 rounded-full animate-bounce" />
-                    <div className="w-2 h-2 bg-gray-400 rounded-full animate-bounce" style={{ animationDelay: '0.1s' }} />
-                    <div className="w-2 h-2 bg-gray-400 rounded-full animate-bounce" style={{ animationDelay: '0.2s' }} />
+                {error && (
+                  <div className="flex justify-center">
+                    <div className="max-w-2xl w-full bg-white border border-gray-300 text-gray-900 px-4 py-3">
+                      <p className="font-mono text-xs font-bold uppercase text-gray-900">Error</p>
+                      <p className="font-mono text-xs mt-2 text-gray-600">{error}</p>
+                    </div>
                   </div>
-                </div>
-              </div>
-            )}
-
-            {error && (
-              <div className="flex justify-center">
-                <div className="max-w-2xl w-full bg-white border border-gray-300 text-gray-900 px-4 py-3">
-                  <p className="font-mono text-xs font-bold uppercase text-gray-900">Error</p>
-                  <p className="font-mono text-xs mt-2 text-gray-600">{error}</p>
-                </div>
+                )}
               </div>
-            )}
-          </div>
-        </div>
+            </div>
 
-        {/* Input Area */}
-        <div className="border-t border-gray-300 bg-white px-6 py-4">
-          <div className="max-w-6xl mx-auto">
-            {isSessionArchived() && (
-              <div className="mb-4 p-4 border border-gray-300 bg-gray-50">
-                <div className="flex items-start gap-3">
-                  <div className="shrink-0 w-5 h-5 rounded-full bg-gray-300 text-gray-700 flex items-center justify-center font-mono text-xs font-bold">
-                    i
-                  </div>
-                  <div className="flex-1">
-                    <p className="font-mono text-xs font-bold uppercase text-gray-900 mb-2">Session Archived</p>
-                    <p className="font-mono text-xs text-gray-600">
-                      This session expired after container timeout. Start a new chat to continue.
-                    </p>
-                  </div>
-                </div>
-              </div>
-            )}
-            <form onSubmit={handleQuery} className="space-y-3">
-              <div className="flex gap-3">
-                <div className="flex-1">
-                  <textarea
-                    value={prompt}
-                    onChange={(e) => setPrompt(e.target.value)}
-                    onKeyDown={(e) => {
-                      if (e.key === 'Enter' && e.ctrlKey) {
-                        const fakeEvent = new Event('submit') as unknown as React.FormEvent;
-                        handleQuery(fakeEvent);
-                      }
-                    }}
-                    placeholder="Type your prompt here... (Ctrl+Enter to send)"
-                    rows={3}
-                    disabled={loading || isSessionArchived()}
-                    className="w-full px-4 py-3 bg-gray-50 border border-gray-300 text-gray-900 placeholder-gray-600 font-mono text-sm focus:outline-none focus:border-gray-900 disabled:opacity-50 disabled:cursor-not-allowed resize-none transition-colors duration-200"
-                  />
-                </div>
-              </div>
-              <div className="flex justify-between items-center">
-                <div className="flex flex-wrap gap-2 items-center">
-                  {skills.map((skill) => (
-                    <Tooltip.Root key={skill.name}>
-                      <Tooltip.Trigger className="px-2 py-0.5 bg-purple-50 text-purple-700 border border-purple-200 font-mono text-[10px] font-bold uppercase cursor-help hover:bg-purple-100 transition-colors">
-                        ⚡ {skill.name}
-                      </Tooltip.Trigger>
-                      <Tooltip.Portal>
-                        <Tooltip.Positioner side="top" sideOffset={8}>
-                          <Tooltip.Popup className="bg-white text-gray-900 px-3 py-1.5 font-mono text-[10px] font-bold uppercase border border-gray-300 shadow-xl z-[100]">
-                            <span className="text-purple-700 mr-2">SKILL:</span>
-                            {skill.description}
-                          </Tooltip.Popup>
-                        </Tooltip.Positioner>
-                      </Tooltip.Portal>
-                    </Tooltip.Root>
-                  ))}
-                  {mcpServers.map((mcp) => (
-                    <Tooltip.Root key={mcp.name}>
-                      <Tooltip.Trigger className="px-2 py-0.5 bg-blue-50 text-blue-700 border border-blue-200 font-mono text-[10px] font-bold uppercase cursor-help hover:bg-blue-100 transition-colors">
-                        🔌 {mcp.name}
-                      </Tooltip.Trigger>
-                      <Tooltip.Portal>
-                        <Tooltip.Positioner side="top" sideOffset={8}>
-                          <Tooltip.Popup className="bg-white text-gray-900 px-3 py-1.5 font-mono text-[10px] font-bold uppercase border border-gray-300 shadow-xl z-[100]">
-                            <span className="text-blue-700 mr-2">MCP:</span>
-                            {mcp.description}
-                          </Tooltip.Popup>
-                        </Tooltip.Positioner>
-                      </Tooltip.Portal>
-                    </Tooltip.Root>
-                  ))}
-                  {poolStatus !== null && !poolStatus.ready && (
-                    <Tooltip.Root>
-                      <Tooltip.Trigger className="px-2 py-0.5 bg-yellow-50 text-yellow-700 border border-yellow-200 font-mono text-[10px] font-bold uppercase cursor-help animate-pulse">
-                        ⏳ WARMING UP
-                      </Tooltip.Trigger>
-                      <Tooltip.Portal>
-                        <Tooltip.Positioner side="top" sideOffset={8}>
-                          <Tooltip.Popup className="bg-white text-gray-900 px-3 py-1.5 font-mono text-[10px] font-bold uppercase border border-gray-300 shadow-xl z-[100]">
-                            <span className="text-yellow-700 mr-2">SESSION POOL:</span>
-                            Preparing sessions for faster responses
-                          </Tooltip.Popup>
-                        </Tooltip.Positioner>
-                      </Tooltip.Portal>
-                    </Tooltip.Root>
-                  )}
-                  {prompt.length > 0 && (
-                    <span className="font-mono text-[10px] text-gray-400 uppercase ml-1">
-                      {prompt.length} chars
-                    </span>
+            {/* Input Area */}
+            <div className="border-t border-gray-300 bg-white px-6 py-4">
+              <div className="max-w-6xl mx-auto">
+                <form onSubmit={handleQuery} className="space-y-3">
+                  {quotaNotice && (
+                    <div className="flex items-center justify-between px-3 py-2 bg-amber-50 border border-amber-300">
+                      <p className="font-mono text-xs text-amber-900">{quotaNotice.message}</p>
+                      <p className="font-mono text-[10px] uppercase text-amber-900">
+                        Retry in {quotaSecondsLeft}s
+                      </p>
+                    </div>
                   )}
-                </div>
-                <Button
-                  type="submit"
-                  disabled={loading || !prompt.trim() || isSessionArchived()}
-                  className="px-6 py-2 font-mono font-bold uppercase text-xs bg-gray-900 text-white border border-gray-900 hover:bg-white hover:text-gray-900 transition-colors duration-200 disabled:opacity-50 disabled:cursor-not-allowed cursor-pointer"
-                >
-                  {loading ? (
-                    <span className="flex items-center gap-2">
-                      <svg className="animate-spin h-4 w-4" fill="none" viewBox="0 0 24 24">
-                        <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" />
-                        <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z" />
-                      </svg>
-                      Processing
-                    </span>
-                  ) : (
-                    '→ Send'
+                  {attachments.length > 0 && (
+                    <div className="flex flex-wrap gap-2">
+                      {attachments.map((path) => (
+                        <span
+                          key={path}
+                          className="flex items-center gap-1 px-2 py-0.5 bg-gray-100 text-gray-900 border border-gray-300 font-mono text-[10px]"
+                        >
+                          <Paperclip size={10} />
+                          {path}
+                          <button
+                            type="button"
+                            onClick={() => setAttachments(prev => prev.filter(p => p !== path))}
+                            className="text-gray-500 hover:text-gray-900 cursor-pointer"
+                          >
+                            <X size={10} />
+                          </button>
+                        </span>
+                      ))}
+                    </div>
                   )}
-                </Button>
+                  <div className="flex gap-3">
+                    <div className="flex-1">
+                      <textarea
+                        value={prompt}
+                        onChange={(e) => setPrompt(e.target.value)}
+                        onKeyDown={(e) => {
+                          if (e.key === 'Enter' && e.ctrlKey) {
+                            const fakeEvent = new Event('submit') as unknown as React.FormEvent;
+                            handleQuery(fakeEvent);
+                          }
+                        }}
+                        placeholder="Type your prompt here... (Ctrl+Enter to send)"
+                        rows={3}
+                        disabled={loading}
+                        className="w-full px-4 py-3 bg-gray-50 border border-gray-300 text-gray-900 placeholder-gray-600 font-mono text-sm focus:outline-none focus:border-gray-900 disabled:opacity-50 disabled:cursor-not-allowed resize-none transition-colors duration-200"
+                      />
+                    </div>
+                  </div>
+                  <div className="flex justify-between items-center">
+                    <div className="flex flex-wrap gap-2 items-center">
+                      <input
+                        ref={fileInputRef}
+                        type="file"
+                        multiple
+                        className="hidden"
+                        onChange={(e) => attachFiles(e.target.files)}
+                      />
+                      <Button
+                        type="button"
+                        onClick={() => fileInputRef.current?.click()}
+                        disabled={loading || uploading}
+                        title="Attach files"
+                        className="flex items-center gap-1 px-2 py-0.5 bg-white text-gray-900 border border-gray-300 font-mono text-[10px] font-bold uppercase cursor-pointer hover:border-gray-900 disabled:opacity-50 disabled:cursor-not-allowed"
+                      >
+                        <Paperclip size={10} />
+                        {uploading ? 'Uploading' : 'Attach'}
+                      </Button>
+                      {profiles.length > 0 && (
+                        <select
+                          value={selectedProfile}
+                          onChange={(e) => selectProfile(e.target.value)}
+                          disabled={loading}
+                          title={profiles.find(p => p.name === selectedProfile)?.description || 'Agent profile'}
+                          className="px-2 py-0.5 bg-white text-gray-900 border border-gray-300 font-mono text-[10px] font-bold uppercase cursor-pointer focus:outline-none focus:border-gray-900 disabled:opacity-50"
+                        >
+                          <option value="">Default profile</option>
+                          {profiles.map((profile) => (
+                            <option key={profile.name} value={profile.name}>{profile.name}</option>
+                          ))}
+                        </select>
+                      )}
+                      {models.length > 1 && (
+                        <select
+                          value={selectedModel}
+                          onChange={(e) => selectModel(e.target.value)}
+                          disabled={loading}
+                          title="Model"
+                          className="px-2 py-0.5 bg-white text-gray-900 border border-gray-300 font-mono text-[10px] font-bold uppercase cursor-pointer focus:outline-none focus:border-gray-900 disabled:opacity-50"
+                        >
+                          <option value="">
+                            Auto ({profiles.find(p => p.name === selectedProfile)?.model || models[0]})
+                          </option>
+                          {models.map((model) => (
+                            <option key={model} value={model}>{model}</option>
+                          ))}
+                        </select>
+                      )}
+                      {skills.map((skill) => (
+                        <Tooltip.Root key={skill.name}>
+                          <Tooltip.Trigger className="px-2 py-0.5 bg-purple-50 text-purple-700 border border-purple-200 font-mono text-[10px] font-bold uppercase cursor-help hover:bg-purple-100 transition-colors">
+                            ⚡ {skill.name}
+                          </Tooltip.Trigger>
+                          <Tooltip.Portal>
+                            <Tooltip.Positioner side="top" sideOffset={8}>
+                              <Tooltip.Popup className="bg-white text-gray-900 px-3 py-1.5 font-mono text-[10px] font-bold uppercase border border-gray-300 shadow-xl z-[100]">
+                                <span className="text-purple-700 mr-2">SKILL:</span>
+                                {skill.description}
+                              </Tooltip.Popup>
+                            </Tooltip.Positioner>
+                          </Tooltip.Portal>
+                        </Tooltip.Root>
+                      ))}
+                      {mcpServers.map((mcp) => (
+                        <Tooltip.Root key={mcp.name}>
+                          <Tooltip.Trigger
+                            className={`px-2 py-0.5 font-mono text-[10px] font-bold uppercase cursor-help transition-colors border ${
+                              mcp.status === 'connected'
+                                ? 'bg-blue-50 text-blue-700 border-blue-200 hover:bg-blue-100'
+                                : 'bg-gray-50 text-gray-500 border-gray-300 hover:bg-gray-100'
+                            }`}
+                          >
+                            🔌 {mcp.name}
+                          </Tooltip.Trigger>
+                          <Tooltip.Portal>
+                            <Tooltip.Positioner side="top" sideOffset={8}>
+                              <Tooltip.Popup className="bg-white text-gray-900 px-3 py-1.5 font-mono text-[10px] font-bold uppercase border border-gray-300 shadow-xl z-[100]">
+                                <span className="text-blue-700 mr-2">MCP:</span>
+                                {mcp.type} · {mcp.status}
+                              </Tooltip.Popup>
+                            </Tooltip.Positioner>
+                          </Tooltip.Portal>
+                        </Tooltip.Root>
+                      ))}
+                      {customTools.map((customTool) => (
+                        <Tooltip.Root key={customTool.name}>
+                          <Tooltip.Trigger className="px-2 py-0.5 bg-emerald-50 text-emerald-700 border border-emerald-200 font-mono text-[10px] font-bold uppercase cursor-help hover:bg-emerald-100 transition-colors">
+                            🔧 {customTool.name}
+                          </Tooltip.Trigger>
+                          <Tooltip.Portal>
+                            <Tooltip.Positioner side="top" sideOffset={8}>
+                              <Tooltip.Popup className="bg-white text-gray-900 px-3 py-1.5 font-mono text-[10px] font-bold uppercase border border-gray-300 shadow-xl z-[100]">
+                                <span className="text-emerald-700 mr-2">TOOL:</span>
+                                {customTool.description}
+                              </Tooltip.Popup>
+                            </Tooltip.Positioner>
+                          </Tooltip.Portal>
+                        </Tooltip.Root>
+                      ))}
+                      {poolStatus !== null && !poolStatus.ready && (
+                        <Tooltip.Root>
+                          <Tooltip.Trigger className="px-2 py-0.5 bg-yellow-50 text-yellow-700 border border-yellow-200 font-mono text-[10px] font-bold uppercase cursor-help animate-pulse">
+                            ⏳ WARMING UP
+                          </Tooltip.Trigger>
+                          <Tooltip.Portal>
+                            <Tooltip.Positioner side="top" sideOffset={8}>
+                              <Tooltip.Popup className="bg-white text-gray-900 px-3 py-1.5 font-mono text-[10px] font-bold uppercase border border-gray-300 shadow-xl z-[100]">
+                                <span className="text-yellow-700 mr-2">SESSION POOL:</span>
+                                Preparing sessions for faster responses
+                              </Tooltip.Popup>
+                            </Tooltip.Positioner>
+                          </Tooltip.Portal>
+                        </Tooltip.Root>
+                      )}
+                      {prompt.length > 0 && (
+                        <span className="font-mono text-[10px] text-gray-400 uppercase ml-1">
+                          {prompt.length} chars
+                        </span>
+                      )}
+                    </div>
+                    {loading ? (
+                      <Button
+                        type="button"
+                        onClick={stopTurn}
+                        disabled={stopping}
+                        className="px-6 py-2 font-mono font-bold uppercase text-xs bg-white text-gray-900 border border-gray-900 hover:bg-gray-900 hover:text-white transition-colors duration-200 disabled:opacity-50 disabled:cursor-not-allowed cursor-pointer"
+                      >
+                        <span className="flex items-center gap-2">
+                          <Square size={12} fill="currentColor" />
+                          {stopping ? 'Stopping' : 'Stop'}
+                        </span>
+                      </Button>
+                    ) : (
+                      <Button
+                        type="submit"
+                        disabled={!prompt.trim() || quotaNotice !== null}
+                        className="px-6 py-2 font-mono font-bold uppercase text-xs bg-gray-900 text-white border border-gray-900 hover:bg-white hover:text-gray-900 transition-colors duration-200 disabled:opacity-50 disabled:cursor-not-allowed cursor-pointer"
+                      >
+                        → Send
+                      </Button>
+                    )}
+                  </div>
+                </form>
               </div>
-            </form>
+            </div>
           </div>
+
+          {sidePanel === 'files' && (
+            <FilePanel workspace={workspaceId} refreshKey={filesVersion} onClose={() => setSidePanel(null)} />
+          )}
+          {sidePanel === 'mcp' && <McpPanel onClose={() => setSidePanel(null)} />}
         </div>
       </div>
     </Tooltip.Provider>
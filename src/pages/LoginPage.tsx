@@ -0,0 +1,165 @@
+import { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Button } from '@base-ui/react';
+import { LogIn } from 'lucide-react';
+import { setToken, clearToken } from '../lib/auth';
+
+export function LoginPage() {
+  const navigate = useNavigate();
+  const [token, setTokenInput] = useState('');
+  const [accountId, setAccountId] = useState('');
+  const [devLogin, setDevLogin] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const checkConfig = async () => {
+      try {
+        const res = await fetch('/config');
+        const data = await res.json();
+        setDevLogin(!!data.devLogin);
+      } catch (err) {
+        console.error('Failed to check config:', err);
+      }
+    };
+    checkConfig();
+  }, []);
+
+  // Confirm the token with the Worker before storing it
+  const signIn = async (candidate: string) => {
+    const res = await fetch('/auth/me', {
+      headers: { Authorization: `Bearer ${candidate}` },
+    });
+    if (!res.ok) {
+      const errorData = await res.json().catch(() => ({}));
+      throw new Error(errorData.error || `HTTP ${res.status}`);
+    }
+    setToken(candidate);
+    navigate('/', { replace: true });
+  };
+
+  const handleTokenLogin = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!token.trim()) {
+      setError('Please paste an access token');
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+    try {
+      await signIn(token.trim());
+    } catch (err) {
+      clearToken();
+      setError(err instanceof Error ? err.message : 'Unknown error');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleDevLogin = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!accountId.trim()) {
+      setError('Please enter an account ID');
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+    try {
+      const res = await fetch('/auth/dev-token', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ accountId: accountId.trim() }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.error || `HTTP ${res.status}`);
+      }
+      await signIn(data.token);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="w-full h-full flex flex-col bg-gray-50">
+      {/* Header */}
+      <div className="border-b border-gray-300 bg-white px-6 py-4">
+        <div className="max-w-6xl mx-auto">
+          <h1 className="text-2xl font-mono font-bold uppercase text-gray-900">Claude Agent Template</h1>
+          <p className="font-mono text-xs text-gray-600 mt-1">
+            Claude Agent SDK + Cloudflare Containers
+          </p>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto px-6 py-12">
+        <div className="max-w-lg mx-auto space-y-4">
+          <div className="border border-gray-300 bg-white">
+            <div className="border-b border-gray-300 bg-gray-100 px-4 py-3">
+              <h2 className="text-xs font-mono font-bold uppercase text-gray-900">Sign In</h2>
+            </div>
+            <form onSubmit={handleTokenLogin} className="p-4 space-y-4">
+              <p className="font-mono text-sm text-gray-600">
+                Paste an access token issued by your identity provider.
+              </p>
+              <textarea
+                value={token}
+                onChange={(e) => setTokenInput(e.target.value)}
+                placeholder="eyJhbGciOi..."
+                rows={4}
+                disabled={loading}
+                className="w-full px-4 py-3 bg-gray-50 border border-gray-300 text-gray-900 placeholder-gray-600 font-mono text-xs focus:outline-none focus:border-gray-900 disabled:opacity-50 resize-none break-all transition-colors duration-200"
+              />
+              <Button
+                type="submit"
+                disabled={loading || !token.trim()}
+                className="w-full px-6 py-3 font-mono font-bold uppercase text-xs bg-gray-900 text-white border border-gray-900 hover:bg-white hover:text-gray-900 transition-colors duration-200 disabled:opacity-50 disabled:cursor-not-allowed cursor-pointer flex items-center justify-center gap-2"
+              >
+                <LogIn size={14} />
+                Sign In
+              </Button>
+            </form>
+          </div>
+
+          {devLogin && (
+            <div className="border border-gray-300 bg-white">
+              <div className="border-b border-gray-300 bg-gray-100 px-4 py-3">
+                <h2 className="text-xs font-mono font-bold uppercase text-gray-900">Dev Login</h2>
+              </div>
+              <form onSubmit={handleDevLogin} className="p-4 space-y-4">
+                <p className="font-mono text-sm text-gray-600">
+                  AUTH_DEV_LOGIN is enabled. Sign in as any account ID.
+                </p>
+                <input
+                  value={accountId}
+                  onChange={(e) => setAccountId(e.target.value)}
+                  placeholder="account-id"
+                  disabled={loading}
+                  className="w-full px-4 py-3 bg-gray-50 border border-gray-300 text-gray-900 placeholder-gray-600 font-mono text-sm focus:outline-none focus:border-gray-900 disabled:opacity-50 transition-colors duration-200"
+                />
+                <Button
+                  type="submit"
+                  disabled={loading || !accountId.trim()}
+                  className="w-full px-6 py-3 font-mono font-bold uppercase text-xs bg-gray-100 text-gray-900 border border-gray-300 hover:bg-gray-200 hover:border-gray-900 transition-colors duration-200 disabled:opacity-50 disabled:cursor-not-allowed cursor-pointer"
+                >
+                  → Get Dev Token
+                </Button>
+              </form>
+            </div>
+          )}
+
+          {error && (
+            <div className="bg-white border border-gray-300 text-gray-900 px-4 py-3">
+              <p className="font-mono text-xs font-bold uppercase text-gray-900">Error</p>
+              <p className="font-mono text-xs mt-2 text-gray-600">{error}</p>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
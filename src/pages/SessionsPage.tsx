@@ -1,34 +1,75 @@
 import { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { Button } from '@base-ui/react';
-import { MessageSquare } from 'lucide-react';
+import { LogOut, MessageSquare, Server, Settings } from 'lucide-react';
+import { isAdminAccount } from '../lib/admin';
+import { authFetch, clearToken } from '../lib/auth';
+import { formatUsage } from '../lib/usage';
 
 interface Session {
   id: string;
   createdAt: number;
   messageCount: number;
   preview: string;
+  // Only present for sessions recorded on the server
+  usage?: UsageTotals;
 }
 
+interface UsageTotals {
+  turns: number;
+  inputTokens: number;
+  outputTokens: number;
+  cacheReadInputTokens: number;
+  cacheCreationInputTokens: number;
+  costUsd: number;
+}
+
+const loadLocalSessions = (): Session[] => {
+  try {
+    const savedSessions = localStorage.getItem('agentSessions');
+    if (savedSessions) {
+      return JSON.parse(savedSessions) as Session[];
+    }
+  } catch (err) {
+    console.error('Failed to load sessions:', err);
+  }
+  return [];
+};
+
 export function SessionsPage() {
   const navigate = useNavigate();
   const [sessions, setSessions] = useState<Session[]>([]);
   const [deleteConfirm, setDeleteConfirm] = useState<string | null>(null);
+  const [isAdmin, setIsAdmin] = useState(false);
 
   useEffect(() => {
     loadSessions();
+    isAdminAccount().then(setIsAdmin).catch(() => setIsAdmin(false));
   }, []);
 
-  const loadSessions = () => {
+  // Server-side sessions take precedence; local-only sessions are kept as a fallback
+  const loadSessions = async () => {
+    const localSessions = loadLocalSessions();
+    let merged = localSessions;
+
     try {
-      const savedSessions = localStorage.getItem('agentSessions');
-      if (savedSessions) {
-        const parsed = JSON.parse(savedSessions) as Session[];
-        setSessions(parsed.sort((a, b) => b.createdAt - a.createdAt));
+      const res = await authFetch('/sessions');
+      if (res.ok) {
+        const data = await res.json();
+        const serverSessions = (data.sessions || []) as Session[];
+        const serverIds = new Set(serverSessions.map(s => s.id));
+        merged = [...serverSessions, ...localSessions.filter(s => !serverIds.has(s.id))];
       }
     } catch (err) {
-      console.error('Failed to load sessions:', err);
+      console.log('[Sessions] Server history unavailable, using local copy:', err);
     }
+
+    setSessions(merged.sort((a, b) => b.createdAt - a.createdAt));
+  };
+
+  const signOut = () => {
+    clearToken();
+    navigate('/login');
   };
 
   const createNewSession = () => {
@@ -44,12 +85,8 @@ export function SessionsPage() {
     setSessions(updatedSessions);
     localStorage.setItem('agentSessions', JSON.stringify(updatedSessions));
     localStorage.removeItem(`agentSessionHistory_${sessionId}`);
-  };
-
-  // Sessions expire after container timeout (default 30m, configurable)
-  const isSessionArchived = (session: Session): boolean => {
-    const minutesElapsed = (Date.now() - session.createdAt) / 1000 / 60;
-    return minutesElapsed > 30;
+    authFetch(`/sessions/${encodeURIComponent(sessionId)}`, { method: 'DELETE' })
+      .catch(err => console.error('Failed to delete server session:', err));
   };
 
   return (
@@ -63,13 +100,38 @@ export function SessionsPage() {
               Claude Agent SDK + Cloudflare Containers
             </p>
           </div>
-          <Button
-            onClick={createNewSession}
-            className="px-6 py-2 font-mono font-bold uppercase text-xs bg-gray-900 text-white border border-gray-900 hover:bg-white hover:text-gray-900 transition-colors duration-200 cursor-pointer flex items-center gap-2"
-          >
-            <MessageSquare size={14} />
-            New Chat
-          </Button>
+          <div className="flex items-center gap-3">
+            {isAdmin && (
+              <Button
+                onClick={() => navigate('/admin')}
+                className="px-4 py-2 font-mono font-bold uppercase text-xs bg-gray-100 text-gray-900 border border-gray-300 hover:bg-gray-200 hover:border-gray-900 transition-colors duration-200 cursor-pointer flex items-center gap-2"
+              >
+                <Server size={14} />
+                Admin
+              </Button>
+            )}
+            <Button
+              onClick={() => navigate('/settings')}
+              className="px-4 py-2 font-mono font-bold uppercase text-xs bg-gray-100 text-gray-900 border border-gray-300 hover:bg-gray-200 hover:border-gray-900 transition-colors duration-200 cursor-pointer flex items-center gap-2"
+            >
+              <Settings size={14} />
+              Settings
+            </Button>
+            <Button
+              onClick={signOut}
+              className="px-4 py-2 font-mono font-bold uppercase text-xs bg-gray-100 text-gray-900 border border-gray-300 hover:bg-gray-200 hover:border-gray-900 transition-colors duration-200 cursor-pointer flex items-center gap-2"
+            >
+              <LogOut size={14} />
+              Sign Out
+            </Button>
+            <Button
+              onClick={createNewSession}
+              className="px-6 py-2 font-mono font-bold uppercase text-xs bg-gray-900 text-white border border-gray-900 hover:bg-white hover:text-gray-900 transition-colors duration-200 cursor-pointer flex items-center gap-2"
+            >
+              <MessageSquare size={14} />
+              New Chat
+            </Button>
+          </div>
         </div>
       </div>
 
@@ -125,14 +187,6 @@ export function SessionsPage() {
                       <p className="font-mono text-xs text-gray-600">
                         {new Date(session.createdAt).toLocaleDateString()} {new Date(session.createdAt).toLocaleTimeString()}
                       </p>
-                      {isSessionArchived(session) && (
-                        <span
-                          className="font-mono text-xs bg-gray-300 text-gray-900 px-2 py-0.5 cursor-help"
-                          title="Session expired after container timeout"
-                        >
-                          archived
-                        </span>
-                      )}
                     </div>
                     <Button
                       onClick={() => setDeleteConfirm(session.id)}
@@ -146,17 +200,14 @@ export function SessionsPage() {
 
                   <Button
                     onClick={() => selectSession(session.id)}
-                    className={`flex-1 text-left p-3 transition-colors duration-200 cursor-pointer ${
-                      isSessionArchived(session)
-                        ? 'bg-gray-50 opacity-60 hover:bg-gray-50'
-                        : 'hover:bg-gray-50'
-                    }`}
+                    className="flex-1 text-left p-3 transition-colors duration-200 cursor-pointer hover:bg-gray-50"
                   >
                     <p className="font-mono text-sm text-gray-900 line-clamp-2 mb-1">
                       {session.preview || 'New conversation'}
                     </p>
                     <p className="font-mono text-xs text-gray-600">
                       {session.messageCount} messages
+                      {session.usage && session.usage.turns > 0 && ` · ${formatUsage(session.usage)}`}
                     </p>
                   </Button>
                 </div>
@@ -0,0 +1,159 @@
+import { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Button } from '@base-ui/react';
+import { ArrowLeft, KeyRound, Trash2 } from 'lucide-react';
+import { type ApiKeyStatus, deleteApiKey, getApiKeyStatus, saveApiKey } from '../lib/settings';
+
+export function SettingsPage() {
+  const navigate = useNavigate();
+  const [status, setStatus] = useState<ApiKeyStatus | null>(null);
+  const [apiKey, setApiKey] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [confirmDelete, setConfirmDelete] = useState(false);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    getApiKeyStatus()
+      .then(setStatus)
+      .catch(err => setError(err instanceof Error ? err.message : 'Failed to load settings'));
+  }, []);
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!apiKey.trim()) {
+      setError('Please enter an API key');
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+    setNotice(null);
+    try {
+      const rotating = status?.configured;
+      setStatus(await saveApiKey(apiKey.trim()));
+      setNotice(rotating ? 'API key replaced' : 'API key saved');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error');
+    } finally {
+      // Don't keep the key around in the form once it has been sent
+      setApiKey('');
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    setSaving(true);
+    setError(null);
+    setNotice(null);
+    try {
+      setStatus(await deleteApiKey());
+      setNotice('API key deleted');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error');
+    } finally {
+      setConfirmDelete(false);
+      setSaving(false);
+    }
+  };
+
+  const describeStatus = (current: ApiKeyStatus) => {
+    if (current.configured) {
+      return `Your own key is in use (set ${new Date(current.updatedAt ?? 0).toLocaleString()}).`;
+    }
+    if (current.fallback) {
+      return 'No key set. The deployment\'s shared key is used until you add one.';
+    }
+    return 'No key set. Add one to start chatting.';
+  };
+
+  return (
+    <div className="w-full h-full flex flex-col bg-gray-50">
+      {/* Header */}
+      <div className="border-b border-gray-300 bg-white px-6 py-4">
+        <div className="max-w-6xl mx-auto flex items-center justify-between">
+          <div>
+            <h1 className="text-2xl font-mono font-bold uppercase text-gray-900">Settings</h1>
+            <p className="font-mono text-xs text-gray-600 mt-1">Account configuration</p>
+          </div>
+          <Button
+            onClick={() => navigate('/')}
+            className="px-4 py-2 font-mono font-bold uppercase text-xs bg-gray-100 text-gray-900 border border-gray-300 hover:bg-gray-200 hover:border-gray-900 transition-colors duration-200 cursor-pointer flex items-center gap-2"
+          >
+            <ArrowLeft size={14} />
+            Sessions
+          </Button>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto px-6 py-12">
+        <div className="max-w-lg mx-auto space-y-4">
+          <div className="border border-gray-300 bg-white">
+            <div className="border-b border-gray-300 bg-gray-100 px-4 py-3">
+              <h2 className="text-xs font-mono font-bold uppercase text-gray-900">Anthropic API Key</h2>
+            </div>
+            <form onSubmit={handleSave} className="p-4 space-y-4">
+              <p className="font-mono text-sm text-gray-600">
+                {status ? describeStatus(status) : 'Loading...'}
+              </p>
+              {status && !status.encryptionConfigured ? (
+                <p className="font-mono text-xs text-gray-600">
+                  This deployment has no API_KEY_ENCRYPTION_SECRET, so account keys can't be stored.
+                </p>
+              ) : (
+                <>
+                  <input
+                    type="password"
+                    value={apiKey}
+                    onChange={(e) => setApiKey(e.target.value)}
+                    placeholder={status?.configured ? 'New key to replace the current one' : 'sk-ant-...'}
+                    autoComplete="off"
+                    disabled={saving || !status}
+                    className="w-full px-4 py-3 bg-gray-50 border border-gray-300 text-gray-900 placeholder-gray-600 font-mono text-sm focus:outline-none focus:border-gray-900 disabled:opacity-50 transition-colors duration-200"
+                  />
+                  <p className="font-mono text-[10px] uppercase text-gray-500">
+                    Stored encrypted. The key is never shown again; saving restarts your agent container.
+                  </p>
+                  <div className="flex gap-3">
+                    <Button
+                      type="submit"
+                      disabled={saving || !apiKey.trim()}
+                      className="flex-1 px-6 py-3 font-mono font-bold uppercase text-xs bg-gray-900 text-white border border-gray-900 hover:bg-white hover:text-gray-900 transition-colors duration-200 disabled:opacity-50 disabled:cursor-not-allowed cursor-pointer flex items-center justify-center gap-2"
+                    >
+                      <KeyRound size={14} />
+                      {status?.configured ? 'Replace Key' : 'Save Key'}
+                    </Button>
+                    {status?.configured && (
+                      <Button
+                        type="button"
+                        onClick={() => (confirmDelete ? handleDelete() : setConfirmDelete(true))}
+                        disabled={saving}
+                        className="px-6 py-3 font-mono font-bold uppercase text-xs bg-gray-100 text-gray-900 border border-gray-300 hover:bg-gray-200 hover:border-gray-900 transition-colors duration-200 disabled:opacity-50 disabled:cursor-not-allowed cursor-pointer flex items-center gap-2"
+                      >
+                        <Trash2 size={14} />
+                        {confirmDelete ? 'Confirm' : 'Delete'}
+                      </Button>
+                    )}
+                  </div>
+                </>
+              )}
+            </form>
+          </div>
+
+          {notice && (
+            <div className="bg-white border border-gray-300 px-4 py-3">
+              <p className="font-mono text-xs text-gray-900">{notice}</p>
+            </div>
+          )}
+
+          {error && (
+            <div className="bg-white border border-gray-300 text-gray-900 px-4 py-3">
+              <p className="font-mono text-xs font-bold uppercase text-gray-900">Error</p>
+              <p className="font-mono text-xs mt-2 text-gray-600">{error}</p>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
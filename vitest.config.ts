@@ -0,0 +1,9 @@
+import { defineConfig } from 'vitest/config'
+
+// Unit tests for the Worker and shared code; kept apart from vite.config.ts so the Cloudflare plugin
+// isn't loaded. The container has its own tests (see container/package.json).
+export default defineConfig({
+  test: {
+    include: ['worker/**/*.test.ts', 'shared/**/*.test.ts'],
+  },
+})
@@ -4,17 +4,37 @@
 declare namespace Cloudflare {
 	interface GlobalProps {
 		mainModule: typeof import("./worker/index");
-		durableNamespaces: "AgentContainer" | "AgentSession";
+		durableNamespaces: "AgentContainer" | "AgentSession" | "ContainerRegistry";
 	}
 	interface Env {
 		ANTHROPIC_API_KEY: string;
+		AUTH_SECRET: string;
+		AUTH_JWKS_URL: string;
+		AUTH_DEV_LOGIN: string;
+		API_KEY_ENCRYPTION_SECRET: string;
 		GITHUB_EMAIL: string;
 		GITHUB_NAME: string;
 		GITHUB_PAT: string;
 		API_KEY: string;
 		MODEL: string;
+		QUERY_MODELS: string;
+		QUERY_TOOLS: string;
+		QUERY_CWDS: string;
+		QUERY_MAX_TURNS: string;
+		AGENT_PROFILES: string;
+		RATE_LIMIT_RPM: string;
+		MAX_CONCURRENT_TURNS: string;
+		DAILY_TOKEN_BUDGET: string;
+		DAILY_COST_BUDGET_USD: string;
+		LOG_LEVEL: string;
+		LOG_PROMPTS: string;
+		OTEL_EXPORTER_OTLP_ENDPOINT: string;
+		OTEL_EXPORTER_OTLP_HEADERS: string;
+		OTEL_SERVICE_NAME: string;
+		ADMIN_ACCOUNTS: string;
 		AGENT_CONTAINER: DurableObjectNamespace<import("./worker/index").AgentContainer>;
 		AGENT_SESSION: DurableObjectNamespace<import("./worker/index").AgentSession>;
+		CONTAINER_REGISTRY: DurableObjectNamespace<import("./worker/index").ContainerRegistry>;
 		ASSETS: Fetcher;
 	}
 }
@@ -23,7 +43,7 @@ type StringifyValues<EnvType extends Record<string, unknown>> = {
 	[Binding in keyof EnvType]: EnvType[Binding] extends string ? EnvType[Binding] : string;
 };
 declare namespace NodeJS {
-	interface ProcessEnv extends StringifyValues<Pick<Cloudflare.Env, "ANTHROPIC_API_KEY" | "GITHUB_EMAIL" | "GITHUB_NAME" | "GITHUB_PAT" | "API_KEY" | "MODEL">> {}
+	interface ProcessEnv extends StringifyValues<Pick<Cloudflare.Env, "ANTHROPIC_API_KEY" | "AUTH_SECRET" | "AUTH_JWKS_URL" | "AUTH_DEV_LOGIN" | "API_KEY_ENCRYPTION_SECRET" | "GITHUB_EMAIL" | "GITHUB_NAME" | "GITHUB_PAT" | "API_KEY" | "MODEL" | "QUERY_MODELS" | "QUERY_TOOLS" | "QUERY_CWDS" | "QUERY_MAX_TURNS" | "AGENT_PROFILES" | "RATE_LIMIT_RPM" | "MAX_CONCURRENT_TURNS" | "DAILY_TOKEN_BUDGET" | "DAILY_COST_BUDGET_USD" | "LOG_LEVEL" | "LOG_PROMPTS" | "OTEL_EXPORTER_OTLP_ENDPOINT" | "OTEL_EXPORTER_OTLP_HEADERS" | "OTEL_SERVICE_NAME" | "ADMIN_ACCOUNTS">> {}
 }
 
 // Begin runtime types
@@ -0,0 +1,76 @@
+// Per-account Anthropic API keys. Keys are encrypted with AES-GCM under a key derived from
+// API_KEY_ENCRYPTION_SECRET and bound to the account ID, so a stored value can't be replayed
+// into another account's Durable Object.
+
+export interface StoredApiKey {
+  iv: string;
+  ciphertext: string;
+  updatedAt: number;
+}
+
+export class ApiKeyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ApiKeyError";
+  }
+}
+
+const API_KEY_PATTERN = /^sk-ant-[A-Za-z0-9_-]{20,200}$/;
+
+const encoder = new TextEncoder();
+
+const toBase64 = (bytes: Uint8Array) => btoa(String.fromCharCode(...bytes));
+
+const fromBase64 = (value: string) => Uint8Array.from(atob(value), (char) => char.charCodeAt(0));
+
+export const isApiKeyEncryptionConfigured = (env: Env) => !!env.API_KEY_ENCRYPTION_SECRET;
+
+async function deriveKey(env: Env) {
+  if (!env.API_KEY_ENCRYPTION_SECRET) {
+    throw new ApiKeyError("API_KEY_ENCRYPTION_SECRET must be configured to store API keys");
+  }
+  const material = await crypto.subtle.importKey(
+    "raw", encoder.encode(env.API_KEY_ENCRYPTION_SECRET), "HKDF", false, ["deriveKey"]
+  );
+  return crypto.subtle.deriveKey(
+    { name: "HKDF", hash: "SHA-256", salt: new Uint8Array(), info: encoder.encode("anthropic-api-key") },
+    material,
+    { name: "AES-GCM", length: 256 },
+    false,
+    ["encrypt", "decrypt"]
+  );
+}
+
+// Throws ApiKeyError for values that can't be an Anthropic key; the message never includes the value
+export function validateApiKey(value: unknown): string {
+  const apiKey = typeof value === "string" ? value.trim() : "";
+  if (!API_KEY_PATTERN.test(apiKey)) {
+    throw new ApiKeyError("apiKey must be an Anthropic API key (sk-ant-...)");
+  }
+  return apiKey;
+}
+
+export async function encryptApiKey(env: Env, accountId: string, apiKey: string): Promise<StoredApiKey> {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: "AES-GCM", iv, additionalData: encoder.encode(accountId) },
+    await deriveKey(env),
+    encoder.encode(apiKey)
+  );
+  return { iv: toBase64(iv), ciphertext: toBase64(new Uint8Array(ciphertext)), updatedAt: Date.now() };
+}
+
+export async function decryptApiKey(env: Env, accountId: string, stored: StoredApiKey): Promise<string> {
+  const key = await deriveKey(env);
+  try {
+    const plaintext = await crypto.subtle.decrypt(
+      { name: "AES-GCM", iv: fromBase64(stored.iv), additionalData: encoder.encode(accountId) },
+      key,
+      fromBase64(stored.ciphertext)
+    );
+    return new TextDecoder().decode(plaintext);
+  } catch {
+    // Usually means API_KEY_ENCRYPTION_SECRET was rotated after the key was stored
+    throw new ApiKeyError("Stored API key could not be decrypted; set it again in Settings");
+  }
+}
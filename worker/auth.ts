@@ -0,0 +1,107 @@
+import type { Context } from "hono";
+import { createMiddleware } from "hono/factory";
+import { sign, verify, verifyWithJwks } from "hono/jwt";
+import type { LogVariables } from "./log";
+import type { QuotaVariables } from "./quota";
+
+export type AuthVariables = {
+  accountId: string;
+};
+
+export type AppEnv = {
+  Bindings: Env;
+  Variables: AuthVariables & LogVariables & QuotaVariables;
+};
+
+// Dev tokens are short-lived; real deployments should mint tokens from their identity provider
+const DEV_TOKEN_TTL_SECONDS = 12 * 60 * 60;
+
+export const isAuthConfigured = (env: Env) => !!(env.AUTH_SECRET || env.AUTH_JWKS_URL);
+
+export const isDevLoginEnabled = (env: Env) => env.AUTH_DEV_LOGIN === "true" && !!env.AUTH_SECRET;
+
+// Tokens come from the Authorization header; browsers can't set headers on WebSocket
+// upgrades, so those may pass a `token` query parameter instead
+const extractToken = (authorization: string | undefined, queryToken: string | undefined) => {
+  if (authorization?.startsWith("Bearer ")) {
+    return authorization.slice("Bearer ".length).trim();
+  }
+  return queryToken || null;
+};
+
+// Only the /ws upgrade takes `?token=`; query strings end up in logs and browser history, so every
+// other route needs the header
+const isWebSocketUpgrade = (c: Context<AppEnv>) =>
+  c.req.method === "GET" && c.req.path === "/ws" && c.req.header("Upgrade") === "websocket";
+
+async function verifyToken(env: Env, token: string) {
+  if (env.AUTH_JWKS_URL) {
+    return verifyWithJwks(token, { jwks_uri: env.AUTH_JWKS_URL });
+  }
+  return verify(token, env.AUTH_SECRET, "HS256");
+}
+
+// Verifies the bearer token and exposes its `sub` claim as the account ID
+export const requireAuth = createMiddleware<AppEnv>(async (c, next) => {
+  if (!isAuthConfigured(c.env)) {
+    c.get("log").error("Neither AUTH_SECRET nor AUTH_JWKS_URL is configured", { component: "auth" });
+    return c.json({ error: "Authentication is not configured" }, 500);
+  }
+
+  const token = extractToken(c.req.header("Authorization"), isWebSocketUpgrade(c) ? c.req.query("token") : undefined);
+  if (!token) {
+    return c.json({ error: "Missing bearer token" }, 401);
+  }
+
+  try {
+    const payload = await verifyToken(c.env, token);
+    if (typeof payload.sub !== "string" || !payload.sub) {
+      return c.json({ error: "Token has no subject claim" }, 401);
+    }
+    c.set("accountId", payload.sub);
+    c.set("log", c.get("log").child({ accountId: payload.sub }));
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    c.get("log").info("Rejected token", { component: "auth", error: errorMessage });
+    return c.json({ error: "Invalid or expired token" }, 401);
+  }
+
+  await next();
+});
+
+// For public routes that personalise their response: sets accountId when a valid bearer token is
+// present and lets every other request through anonymously
+export const optionalAuth = createMiddleware<AppEnv>(async (c, next) => {
+  const token = extractToken(c.req.header("Authorization"), undefined);
+  if (token && isAuthConfigured(c.env)) {
+    try {
+      const payload = await verifyToken(c.env, token);
+      if (typeof payload.sub === "string" && payload.sub) {
+        c.set("accountId", payload.sub);
+        c.set("log", c.get("log").child({ accountId: payload.sub }));
+      }
+    } catch {
+      // Treated as anonymous; protected routes report the bad token
+    }
+  }
+  await next();
+});
+
+// Accounts listed in ADMIN_ACCOUNTS (comma-separated) may use the /admin routes
+export const isAdmin = (env: Env, accountId: string | undefined) =>
+  !!accountId && (env.ADMIN_ACCOUNTS || "").split(",").some((id) => id.trim() === accountId);
+
+// Runs after requireAuth
+export const requireAdmin = createMiddleware<AppEnv>(async (c, next) => {
+  if (!isAdmin(c.env, c.get("accountId"))) {
+    return c.json({ error: "Admin access required" }, 403);
+  }
+  await next();
+});
+
+export async function signDevToken(env: Env, accountId: string) {
+  const now = Math.floor(Date.now() / 1000);
+  const exp = now + DEV_TOKEN_TTL_SECONDS;
+  const token = await sign({ sub: accountId, iat: now, exp }, env.AUTH_SECRET, "HS256");
+  return { token, exp };
+}
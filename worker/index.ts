@@ -1,46 +1,964 @@
 import { Hono } from "hono";
-import { Container } from "@cloudflare/containers";
+import { Container, type StopParams } from "@cloudflare/containers";
+import {
+  ApiKeyError,
+  decryptApiKey,
+  encryptApiKey,
+  isApiKeyEncryptionConfigured,
+  type StoredApiKey,
+  validateApiKey,
+} from "./apikey";
+import { type AppEnv, isAdmin, isDevLoginEnabled, optionalAuth, requireAdmin, requireAuth, signDevToken } from "./auth";
+import { logger, REQUEST_ID_PATTERN, requestLogging } from "./log";
+import type { Logger } from "../shared/log";
+import type { Span } from "../shared/trace";
+import {
+  buildMcpServer,
+  checkMcpServer,
+  MAX_MCP_SERVERS,
+  McpServerError,
+  type StoredMcpServer,
+  toPublicMcpServer,
+  toSessionMcpServers,
+  validateMcpServerName,
+} from "./mcp";
+import { getOptionsPolicy, OptionsError, resolveSessionConfig } from "./options";
+import { enforceQuota, getQuotaLimits, type QuotaDecision, type QuotaLimits } from "./quota";
+import { getRegistry } from "./registry";
+import { backoffDelay, CONTAINER_CONNECT_BACKOFF, RECONNECT_BACKOFF, sleep, withRetry } from "./retry";
+import { formatFrame, negotiateStreamFormat, SSE_HEARTBEAT, SSE_HEARTBEAT_MS, type StreamFormat, streamHeaders } from "./stream";
+import { createTracer, flushTraces } from "./trace";
+import {
+  type ClientFrame,
+  type ContainerDiscovery,
+  type ContainerStatus,
+  encodeFrame,
+  type ErrorFrame,
+  errorFrame,
+  parseClientFrame,
+  parseServerFrame,
+  type PromptFrame,
+  ProtocolError,
+  type ServerFrame,
+  type SessionConfig,
+  type TurnUsage,
+} from "../shared/protocol";
 
-// Helper to get timestamp with milliseconds
-const timestamp = () => new Date().toISOString().replace('T', ' ').replace('Z', '');
+// Conversation history rows stored in the AgentContainer's SQLite storage
+export interface StoredSession {
+  id: string;
+  createdAt: number;
+  updatedAt: number;
+  messageCount: number;
+  preview: string;
+  usage: UsageTotals;
+}
+
+export interface UsageTotals {
+  turns: number;
+  inputTokens: number;
+  outputTokens: number;
+  cacheReadInputTokens: number;
+  cacheCreationInputTokens: number;
+  costUsd: number;
+}
+
+export interface DailyUsage extends UsageTotals {
+  day: string;
+}
+
+type UsageRow = {
+  turns: number;
+  input_tokens: number;
+  output_tokens: number;
+  cache_read_tokens: number;
+  cache_creation_tokens: number;
+  cost_usd: number;
+};
+
+// SUM() columns shared by every usage rollup
+const USAGE_SUMS = `COUNT(*) AS turns,
+  COALESCE(SUM(input_tokens), 0) AS input_tokens,
+  COALESCE(SUM(output_tokens), 0) AS output_tokens,
+  COALESCE(SUM(cache_read_tokens), 0) AS cache_read_tokens,
+  COALESCE(SUM(cache_creation_tokens), 0) AS cache_creation_tokens,
+  COALESCE(SUM(cost_usd), 0) AS cost_usd`;
+
+const toUsageTotals = (row: UsageRow | undefined): UsageTotals => ({
+  turns: row?.turns ?? 0,
+  inputTokens: row?.input_tokens ?? 0,
+  outputTokens: row?.output_tokens ?? 0,
+  cacheReadInputTokens: row?.cache_read_tokens ?? 0,
+  cacheCreationInputTokens: row?.cache_creation_tokens ?? 0,
+  costUsd: row?.cost_usd ?? 0,
+});
+
+export interface StoredMessage {
+  role: "user" | "agent";
+  frame: PromptFrame | ServerFrame;
+  createdAt: number;
+}
+
+// Summarise a turn the same way ChatPage counts messages (prompt, tool calls, skills, reply)
+function summarizeTurn(frames: ServerFrame[]) {
+  let count = 1;
+  let text = "";
+  for (const frame of frames) {
+    if (frame.type === "text_chunk") {
+      text += frame.content;
+    }
+    if (frame.type === "skill_invocation") {
+      count++;
+    }
+    if (frame.type === "message" && frame.data.type === "assistant") {
+      count += frame.data.message?.content?.filter((block) => block.type === "tool_use").length || 0;
+    }
+  }
+  if (text) count++;
+  const preview = text.substring(0, 50) + (text.length > 50 ? "..." : "");
+  return { count, preview };
+}
+
+// DO SQLite rows are capped at 2 MB; transcripts are split well below that
+const TRANSCRIPT_CHUNK_SIZE = 512 * 1024;
+
+// Skills and MCP status change rarely; /config serves the container's answer for this long
+const DISCOVERY_TTL_MS = 5 * 60 * 1000;
+
+// Turn slots older than this are assumed leaked (e.g. the Worker died mid-turn) and no longer count
+const TURN_SLOT_TTL_MS = 10 * 60 * 1000;
 
-export class AgentContainer extends Container {
+// A turn whose client went away keeps its slot while it can still be resumed: the container's resume
+// window (RESUME_WINDOW_MS) plus time for the turn it then cancels to stop
+const DETACHED_TURN_TTL_MS = 60 * 1000;
+
+export class AgentContainer extends Container<Env> {
   defaultPort = 8081;
   sleepAfter = "30m";
 
   constructor(ctx: DurableObjectState<object>, env: Env) {
     super(ctx, env);
     // Pass environment variables to the container
-    // Add custom env vars here as needed for your skills
+    // Add custom env vars here as needed for your skills. The API key is left to accountEnvVars, so
+    // a container is only ever started with the key of the account it is bound to.
     this.envVars = {
-      ANTHROPIC_API_KEY: env.ANTHROPIC_API_KEY || "",
       MODEL: env.MODEL || "claude-haiku-4-5",
     };
+
+    ctx.storage.sql.exec(`
+      CREATE TABLE IF NOT EXISTS sessions (
+        id TEXT PRIMARY KEY,
+        created_at INTEGER NOT NULL,
+        updated_at INTEGER NOT NULL,
+        message_count INTEGER NOT NULL DEFAULT 0,
+        preview TEXT NOT NULL DEFAULT ''
+      );
+      CREATE TABLE IF NOT EXISTS messages (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        session_id TEXT NOT NULL,
+        role TEXT NOT NULL,
+        frame TEXT NOT NULL,
+        created_at INTEGER NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS messages_session_idx ON messages (session_id, id);
+      CREATE TABLE IF NOT EXISTS usage (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        session_id TEXT NOT NULL,
+        day TEXT NOT NULL,
+        input_tokens INTEGER NOT NULL,
+        output_tokens INTEGER NOT NULL,
+        cache_read_tokens INTEGER NOT NULL,
+        cache_creation_tokens INTEGER NOT NULL,
+        cost_usd REAL NOT NULL,
+        created_at INTEGER NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS usage_day_idx ON usage (day);
+      CREATE INDEX IF NOT EXISTS usage_session_idx ON usage (session_id);
+      CREATE TABLE IF NOT EXISTS quota_requests (
+        created_at INTEGER NOT NULL
+      );
+      CREATE TABLE IF NOT EXISTS quota_turns (
+        ticket TEXT PRIMARY KEY,
+        started_at INTEGER NOT NULL
+      );
+      CREATE TABLE IF NOT EXISTS pending_turns (
+        turn_id TEXT PRIMARY KEY,
+        session_id TEXT,
+        prompt TEXT NOT NULL,
+        quota_ticket TEXT,
+        started_at INTEGER NOT NULL,
+        detached_at INTEGER
+      );
+      CREATE TABLE IF NOT EXISTS transcripts (
+        session_id TEXT NOT NULL,
+        seq INTEGER NOT NULL,
+        data TEXT NOT NULL,
+        PRIMARY KEY (session_id, seq)
+      );
+    `);
+  }
+
+  // Remember a running turn until it ends: its prompt, so a stream resumed elsewhere can record it,
+  // and the turn slot it holds, which outlives the client's connection. Returns false when a turn
+  // with this ID is still pending.
+  async beginTurn(turnId: string, prompt: string, sessionId: string | null, quotaTicket: string | null): Promise<boolean> {
+    const sql = this.ctx.storage.sql;
+    const now = Date.now();
+    sql.exec("DELETE FROM pending_turns WHERE started_at <= ?", now - TURN_SLOT_TTL_MS);
+    return sql.exec(
+      `INSERT INTO pending_turns (turn_id, session_id, prompt, quota_ticket, started_at) VALUES (?, ?, ?, ?, ?)
+       ON CONFLICT (turn_id) DO NOTHING`,
+      turnId, sessionId, prompt, quotaTicket, now
+    ).rowsWritten > 0;
   }
 
-  override onStart() {
-    console.log("[Container] Started", {
-      timestamp: new Date().toISOString(),
-      port: this.defaultPort,
-      sleepAfter: this.sleepAfter
+  // A stream picked the turn up again; returns what is needed to record it, or null once it has ended
+  async attachTurn(turnId: string): Promise<{ prompt: string; sessionId: string | null } | null> {
+    const row = this.ctx.storage.sql
+      .exec<{ prompt: string; session_id: string | null }>(
+        "UPDATE pending_turns SET detached_at = NULL WHERE turn_id = ? AND started_at > ? RETURNING prompt, session_id",
+        turnId, Date.now() - TURN_SLOT_TTL_MS
+      )
+      .toArray()[0];
+    return row ? { prompt: row.prompt, sessionId: row.session_id } : null;
+  }
+
+  // The client went away mid-turn; the turn keeps its slot until it is resumed or DETACHED_TURN_TTL_MS passes
+  async detachTurn(turnId: string): Promise<void> {
+    this.ctx.storage.sql.exec("UPDATE pending_turns SET detached_at = ? WHERE turn_id = ?", Date.now(), turnId);
+  }
+
+  // The turn completed, failed or was lost with the container: forget it and free its slot
+  async endTurn(turnId: string): Promise<void> {
+    const sql = this.ctx.storage.sql;
+    this.ctx.storage.transactionSync(() => {
+      sql.exec(
+        "DELETE FROM quota_turns WHERE ticket IN (SELECT quota_ticket FROM pending_turns WHERE turn_id = ?)",
+        turnId
+      );
+      sql.exec("DELETE FROM pending_turns WHERE turn_id = ?", turnId);
     });
   }
 
-  override onStop(): void {
-    console.log("[Container] Stopped", {
-      timestamp: new Date().toISOString()
+  // Persist one turn: the user's prompt followed by every frame relayed by /query
+  async recordTurn(sessionId: string, prompt: string, frames: ServerFrame[]) {
+    const sql = this.ctx.storage.sql;
+    const now = Date.now();
+    const { count, preview } = summarizeTurn(frames);
+    const usage = frames.find((frame) => frame.type === "complete")?.usage;
+
+    this.ctx.storage.transactionSync(() => {
+      sql.exec(
+        "INSERT INTO messages (session_id, role, frame, created_at) VALUES (?, 'user', ?, ?)",
+        sessionId, JSON.stringify({ type: "prompt", prompt } satisfies PromptFrame), now
+      );
+      for (const frame of frames) {
+        sql.exec(
+          "INSERT INTO messages (session_id, role, frame, created_at) VALUES (?, 'agent', ?, ?)",
+          sessionId, JSON.stringify(frame), now
+        );
+      }
+      sql.exec(
+        `INSERT INTO sessions (id, created_at, updated_at, message_count, preview) VALUES (?, ?, ?, ?, ?)
+         ON CONFLICT (id) DO UPDATE SET
+           updated_at = excluded.updated_at,
+           message_count = sessions.message_count + excluded.message_count,
+           preview = CASE WHEN excluded.preview != '' THEN excluded.preview ELSE sessions.preview END`,
+        sessionId, now, now, count, preview
+      );
+      if (usage) {
+        this.insertUsage(sessionId, usage, now);
+      }
     });
   }
 
-  override onError(error: unknown) {
-    console.error("[Container] Error", {
-      error: error instanceof Error ? error.message : String(error),
-      timestamp: new Date().toISOString()
+  private insertUsage(sessionId: string, usage: TurnUsage, now: number) {
+    this.ctx.storage.sql.exec(
+      `INSERT INTO usage (session_id, day, input_tokens, output_tokens, cache_read_tokens, cache_creation_tokens, cost_usd, created_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+      sessionId, new Date(now).toISOString().slice(0, 10),
+      usage.inputTokens, usage.outputTokens, usage.cacheReadInputTokens, usage.cacheCreationInputTokens, usage.costUsd,
+      now
+    );
+  }
+
+  // Account totals plus daily (UTC) rollups for the last `days` days
+  async getUsage(days: number): Promise<{ totals: UsageTotals; daily: DailyUsage[] }> {
+    const sql = this.ctx.storage.sql;
+    const since = new Date(Date.now() - (days - 1) * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+
+    const totals = sql.exec<UsageRow>(`SELECT ${USAGE_SUMS} FROM usage WHERE day >= ?`, since).toArray()[0];
+    const daily = sql
+      .exec<UsageRow & { day: string }>(
+        `SELECT day, ${USAGE_SUMS} FROM usage WHERE day >= ? GROUP BY day ORDER BY day`,
+        since
+      )
+      .toArray()
+      .map((row) => ({ day: row.day, ...toUsageTotals(row) }));
+
+    return { totals: toUsageTotals(totals), daily };
+  }
+
+  async listSessions(): Promise<StoredSession[]> {
+    const sql = this.ctx.storage.sql;
+    const usageBySession = new Map(
+      sql
+        .exec<UsageRow & { session_id: string }>(`SELECT session_id, ${USAGE_SUMS} FROM usage GROUP BY session_id`)
+        .toArray()
+        .map((row) => [row.session_id, toUsageTotals(row)])
+    );
+
+    return sql
+      .exec<{ id: string; created_at: number; updated_at: number; message_count: number; preview: string }>(
+        "SELECT id, created_at, updated_at, message_count, preview FROM sessions ORDER BY updated_at DESC"
+      )
+      .toArray()
+      .map((row) => ({
+        id: row.id,
+        createdAt: row.created_at,
+        updatedAt: row.updated_at,
+        messageCount: row.message_count,
+        preview: row.preview,
+        usage: usageBySession.get(row.id) ?? toUsageTotals(undefined),
+      }));
+  }
+
+  async getSessionMessages(sessionId: string): Promise<StoredMessage[] | null> {
+    const sql = this.ctx.storage.sql;
+    const exists = sql.exec("SELECT 1 FROM sessions WHERE id = ?", sessionId).toArray().length > 0;
+    if (!exists) return null;
+
+    return sql
+      .exec<{ role: string; frame: string; created_at: number }>(
+        "SELECT role, frame, created_at FROM messages WHERE session_id = ? ORDER BY id",
+        sessionId
+      )
+      .toArray()
+      .map((row) => ({
+        role: row.role as StoredMessage["role"],
+        frame: JSON.parse(row.frame),
+        createdAt: row.created_at,
+      }));
+  }
+
+  // Tools this account approved with "always allow"; sent with every turn
+  async getAllowedTools(): Promise<string[]> {
+    return (await this.ctx.storage.get<string[]>("permissions:allowedTools")) || [];
+  }
+
+  async setAllowedTools(tools: string[]): Promise<string[]> {
+    const unique = Array.from(new Set(tools)).sort();
+    await this.ctx.storage.put("permissions:allowedTools", unique);
+    return unique;
+  }
+
+  async allowTool(toolName: string): Promise<string[]> {
+    return this.setAllowedTools([...(await this.getAllowedTools()), toolName]);
+  }
+
+  // Skills and MCP servers reported by the container's /config, cached in storage. Only asks a
+  // running container, so /config never starts one; stale or missing data is returned as-is.
+  async getDiscovery(): Promise<ContainerDiscovery | null> {
+    const cached = await this.ctx.storage.get<{ fetchedAt: number; discovery: ContainerDiscovery }>("discovery");
+    if ((cached && Date.now() - cached.fetchedAt < DISCOVERY_TTL_MS) || !this.ctx.container?.running) {
+      return cached?.discovery ?? null;
+    }
+
+    try {
+      const res = await this.containerFetch("http://container.internal/config");
+      if (!res.ok) {
+        throw new Error(`Container returned ${res.status}`);
+      }
+      const discovery = (await res.json()) as ContainerDiscovery;
+      // Keep asking while MCP servers are still connecting
+      const settled = discovery.mcpServers.every((s) => s.status !== "pending" && s.status !== "unknown");
+      await this.ctx.storage.put("discovery", { fetchedAt: settled ? Date.now() : 0, discovery });
+      return discovery;
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      this.log.error("Discovery failed", { error: errorMessage });
+      return cached?.discovery ?? null;
+    }
+  }
+
+  // Remote MCP servers the account registered (see mcp.ts), keyed by name
+  async getMcpServers(): Promise<Record<string, StoredMcpServer>> {
+    return (await this.ctx.storage.get<Record<string, StoredMcpServer>>("mcp:servers")) || {};
+  }
+
+  async putMcpServer(name: string, server: StoredMcpServer) {
+    const servers = await this.getMcpServers();
+    servers[name] = server;
+    await this.ctx.storage.put("mcp:servers", servers);
+  }
+
+  async deleteMcpServer(name: string): Promise<boolean> {
+    const servers = await this.getMcpServers();
+    if (!Object.hasOwn(servers, name)) return false;
+    delete servers[name];
+    await this.ctx.storage.put("mcp:servers", servers);
+    return true;
+  }
+
+  // The account's own Anthropic API key, encrypted by the Worker (see apikey.ts)
+  async getApiKey(): Promise<StoredApiKey | null> {
+    return (await this.ctx.storage.get<StoredApiKey>("settings:apiKey")) || null;
+  }
+
+  async setApiKey(stored: StoredApiKey) {
+    await this.ctx.storage.put("settings:apiKey", stored);
+    await this.stopForKeyChange();
+  }
+
+  async deleteApiKey() {
+    await this.ctx.storage.delete("settings:apiKey");
+    await this.stopForKeyChange();
+  }
+
+  // The key is passed to the container at start, so a running container would keep the old one
+  private async stopForKeyChange() {
+    if (this.ctx.container?.running) {
+      this.log.info("API key changed, stopping container");
+      await this.stop();
+    }
+  }
+
+  // Rate and budget checks shared by checkQuota and acquireTurn; runs inside a transaction
+  private evaluateQuota(limits: QuotaLimits, now: number): QuotaDecision {
+    const sql = this.ctx.storage.sql;
+    const tomorrow = new Date(now);
+    tomorrow.setUTCHours(24, 0, 0, 0);
+    const untilTomorrow = Math.ceil((tomorrow.getTime() - now) / 1000);
+
+    if (limits.dailyTokens > 0 || limits.dailyCostUsd > 0) {
+      const today = toUsageTotals(
+        sql.exec<UsageRow>(`SELECT ${USAGE_SUMS} FROM usage WHERE day = ?`, new Date(now).toISOString().slice(0, 10)).toArray()[0]
+      );
+      const tokens = today.inputTokens + today.outputTokens + today.cacheReadInputTokens + today.cacheCreationInputTokens;
+      if (limits.dailyTokens > 0 && tokens >= limits.dailyTokens) {
+        return { allowed: false, code: "token_budget_exceeded", error: `Daily token budget of ${limits.dailyTokens} reached`, retryAfter: untilTomorrow };
+      }
+      if (limits.dailyCostUsd > 0 && today.costUsd >= limits.dailyCostUsd) {
+        return { allowed: false, code: "cost_budget_exceeded", error: `Daily cost budget of $${limits.dailyCostUsd} reached`, retryAfter: untilTomorrow };
+      }
+    }
+
+    if (limits.requestsPerMinute > 0) {
+      sql.exec("DELETE FROM quota_requests WHERE created_at <= ?", now - 60_000);
+      const recent = sql
+        .exec<{ count: number; oldest: number | null }>("SELECT COUNT(*) AS count, MIN(created_at) AS oldest FROM quota_requests")
+        .one();
+      if (recent.count >= limits.requestsPerMinute) {
+        const retryAfter = Math.max(1, Math.ceil(((recent.oldest ?? now) + 60_000 - now) / 1000));
+        return { allowed: false, code: "rate_limited", error: `Rate limit of ${limits.requestsPerMinute} requests per minute reached`, retryAfter };
+      }
+    }
+
+    return { allowed: true };
+  }
+
+  // Whether a new turn would currently be allowed, without recording anything
+  async checkQuota(limits: QuotaLimits): Promise<QuotaDecision> {
+    return this.ctx.storage.transactionSync(() => this.evaluateQuota(limits, Date.now()));
+  }
+
+  // Reserve a turn slot: counts towards the rate limit and holds a concurrency slot until released
+  async acquireTurn(limits: QuotaLimits, ticket: string): Promise<QuotaDecision> {
+    const sql = this.ctx.storage.sql;
+    const now = Date.now();
+    return this.ctx.storage.transactionSync(() => {
+      const decision = this.evaluateQuota(limits, now);
+      if (!decision.allowed) return decision;
+
+      if (limits.concurrentTurns > 0) {
+        sql.exec("DELETE FROM quota_turns WHERE started_at <= ?", now - TURN_SLOT_TTL_MS);
+        // Turns nobody resumed in time have been cancelled by the container
+        sql.exec(
+          "DELETE FROM quota_turns WHERE ticket IN (SELECT quota_ticket FROM pending_turns WHERE detached_at <= ?)",
+          now - DETACHED_TURN_TTL_MS
+        );
+        sql.exec("DELETE FROM pending_turns WHERE detached_at <= ?", now - DETACHED_TURN_TTL_MS);
+        const active = sql.exec<{ count: number }>("SELECT COUNT(*) AS count FROM quota_turns").one().count;
+        if (active >= limits.concurrentTurns) {
+          return {
+            allowed: false,
+            code: "concurrency_limited",
+            error: `Only ${limits.concurrentTurns} turn(s) may run at once`,
+            retryAfter: 5,
+          } satisfies QuotaDecision;
+        }
+      }
+
+      sql.exec("INSERT INTO quota_requests (created_at) VALUES (?)", now);
+      sql.exec("INSERT OR REPLACE INTO quota_turns (ticket, started_at) VALUES (?, ?)", ticket, now);
+      return decision;
+    });
+  }
+
+  async releaseTurn(ticket: string): Promise<void> {
+    this.ctx.storage.sql.exec("DELETE FROM quota_turns WHERE ticket = ?", ticket);
+  }
+
+  // Copy the SDK transcript out of the container so the session survives a sleep or restart
+  async saveTranscript(sessionId: string): Promise<boolean> {
+    const res = await this.containerFetch(`http://container.internal/sessions/${encodeURIComponent(sessionId)}/transcript`);
+    if (!res.ok) return false;
+
+    const transcript = await res.text();
+    const sql = this.ctx.storage.sql;
+    this.ctx.storage.transactionSync(() => {
+      sql.exec("DELETE FROM transcripts WHERE session_id = ?", sessionId);
+      // Stored in chunks to stay under the SQLite row size limit
+      for (let seq = 0; seq * TRANSCRIPT_CHUNK_SIZE < transcript.length; seq++) {
+        sql.exec(
+          "INSERT INTO transcripts (session_id, seq, data) VALUES (?, ?, ?)",
+          sessionId, seq, transcript.slice(seq * TRANSCRIPT_CHUNK_SIZE, (seq + 1) * TRANSCRIPT_CHUNK_SIZE)
+        );
+      }
+    });
+    return true;
+  }
+
+  // Hand a stored transcript back to the container if it no longer knows the session
+  async restoreTranscript(sessionId: string): Promise<boolean> {
+    const sessionUrl = `http://container.internal/sessions/${encodeURIComponent(sessionId)}`;
+    const status = await this.containerFetch(sessionUrl);
+    if (!status.ok || ((await status.json()) as { known?: boolean }).known) return false;
+
+    const chunks = this.ctx.storage.sql
+      .exec<{ data: string }>("SELECT data FROM transcripts WHERE session_id = ? ORDER BY seq", sessionId)
+      .toArray();
+    if (chunks.length === 0) return false;
+
+    const res = await this.containerFetch(`${sessionUrl}/transcript`, {
+      method: "PUT",
+      headers: { "Content-Type": "application/x-ndjson" },
+      body: chunks.map((chunk) => chunk.data).join(""),
     });
+    return res.ok;
+  }
+
+  async deleteSession(sessionId: string): Promise<boolean> {
+    const sql = this.ctx.storage.sql;
+    let deleted = false;
+    this.ctx.storage.transactionSync(() => {
+      deleted = sql.exec("DELETE FROM sessions WHERE id = ?", sessionId).rowsWritten > 0;
+      sql.exec("DELETE FROM messages WHERE session_id = ?", sessionId);
+      sql.exec("DELETE FROM transcripts WHERE session_id = ?", sessionId);
+    });
+    return deleted;
+  }
+
+  // The Worker passes the account before every start so the registry can show whose container this is
+  async bindAccount(accountId: string) {
+    if ((await this.ctx.storage.get<string>("account:id")) !== accountId) {
+      await this.ctx.storage.put("account:id", accountId);
+    }
+  }
+
+  // Pool sessions and running turns for the admin page; null when the container isn't running.
+  // Talks to the port directly because containerFetch would start the container and renew its sleep timer.
+  async getAdminStatus(): Promise<ContainerStatus | null> {
+    if (!this.ctx.container?.running) return null;
+    const res = await this.ctx.container.getTcpPort(this.defaultPort).fetch("http://container.internal/status");
+    if (!res.ok) {
+      throw new Error(`Container returned ${res.status}`);
+    }
+    return res.json<ContainerStatus>();
+  }
+
+  // Close a pool session (interrupting its turn if it has one); null when the container doesn't hold it
+  async evictSession(sessionId: string): Promise<{ evicted: boolean; interrupted: boolean } | null> {
+    if (!this.ctx.container?.running) return null;
+    const res = await this.ctx.container
+      .getTcpPort(this.defaultPort)
+      .fetch(`http://container.internal/sessions/${encodeURIComponent(sessionId)}`, { method: "DELETE" });
+    if (res.status === 404) return null;
+    if (!res.ok) {
+      throw new Error(`Container returned ${res.status}`);
+    }
+    return res.json<{ evicted: boolean; interrupted: boolean }>();
+  }
+
+  // SIGKILLs the container, dropping its running turns; the next request starts a fresh one
+  async forceStop(): Promise<boolean> {
+    if (!this.ctx.container?.running) return false;
+    this.log.warn("Force-stopping container");
+    await this.destroy();
+    return true;
+  }
+
+  // Lines from this Durable Object carry its ID, which maps 1:1 to an account
+  private get log(): Logger {
+    return logger.child({ component: "agent-container", objectId: this.ctx.id.toString() });
+  }
+
+  override async onStart() {
+    this.log.info("Container started", { port: this.defaultPort, sleepAfter: this.sleepAfter });
+    try {
+      const accountId = (await this.ctx.storage.get<string>("account:id")) ?? null;
+      await getRegistry(this.env).markStarted(this.ctx.id.toString(), accountId);
+    } catch (error) {
+      this.log.error("Failed to register container", { error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  override async onStop({ exitCode, reason }: StopParams) {
+    this.log.info("Container stopped", { exitCode, reason });
+    try {
+      await getRegistry(this.env).markStopped(this.ctx.id.toString());
+    } catch (error) {
+      this.log.error("Failed to unregister container", { error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  override onError(error: unknown) {
+    this.log.error("Container error", { error: error instanceof Error ? error.message : String(error) });
+  }
+}
+
+const app = new Hono<AppEnv>();
+
+app.use("*", requestLogging);
+
+// Everything except health, config and dev login requires a verified token
+for (const path of ["/auth/me", "/warmup", "/pool-status", "/sessions", "/sessions/*", "/permissions", "/mcp-servers", "/mcp-servers/*", "/settings/*", "/usage", "/metrics", "/admin/*", "/files", "/files/*", "/query", "/query/*", "/ws"]) {
+  app.use(path, requireAuth);
+}
+
+// Quotas are checked before any route that starts a container; /query also takes a turn slot,
+// while /ws takes one per prompt frame
+app.post("/query", enforceQuota({ acquire: true }));
+app.post("/warmup", enforceQuota({ acquire: false }));
+app.get("/ws", enforceQuota({ acquire: false }));
+
+type AgentContainerStub = DurableObjectStub<AgentContainer>;
+
+// Uploads are rejected here before they reach the container (which enforces its own limits too)
+const MAX_UPLOAD_BYTES = 10 * 1024 * 1024;
+
+const containerEnvVars = (env: Env, apiKey: string) => ({
+  ANTHROPIC_API_KEY: apiKey,
+  MODEL: env.MODEL || "claude-haiku-4-5",
+  // The container logs with the same settings as the Worker
+  LOG_LEVEL: env.LOG_LEVEL || "info",
+  LOG_PROMPTS: env.LOG_PROMPTS || "false",
+  // Turns are traced to the same collector as the Worker's spans
+  OTEL_EXPORTER_OTLP_ENDPOINT: env.OTEL_EXPORTER_OTLP_ENDPOINT || "",
+  OTEL_EXPORTER_OTLP_HEADERS: env.OTEL_EXPORTER_OTLP_HEADERS || "",
+  // Add custom env vars here as needed
+});
+
+// Env vars for one account's container: its own API key when set, else the deployment's
+async function accountEnvVars(env: Env, instance: AgentContainerStub, accountId: string) {
+  const [stored] = await Promise.all([instance.getApiKey(), instance.bindAccount(accountId)]);
+  const apiKey = stored ? await decryptApiKey(env, accountId, stored) : env.ANTHROPIC_API_KEY;
+  if (!apiKey) {
+    throw new ApiKeyError("No Anthropic API key configured; add one in Settings");
+  }
+  return containerEnvVars(env, apiKey);
+}
+
+// Open a WebSocket to the container's /ws endpoint
+async function connectToContainer(instance: AgentContainerStub) {
+  const resp = await instance.fetch("http://container.internal/ws", {
+    headers: {
+      Upgrade: "websocket",
+    },
+  });
+
+  // If the WebSocket handshake completed successfully, then the
+  // response has a `webSocket` property.
+  const ws = resp.webSocket;
+  if (!ws) {
+    throw new Error("server didn't accept WebSocket");
   }
+
+  // Call accept() to indicate that you'll be handling the socket here
+  ws.accept();
+  return ws;
+}
+
+// Put a session's transcript back into a restarted container; on failure the container
+// simply starts a fresh session, so errors are logged rather than surfaced
+async function restoreSession(instance: AgentContainerStub, sessionId: string, log: Logger) {
+  try {
+    if (await instance.restoreTranscript(sessionId)) {
+      log.info("Restored transcript", { component: "history", sessionId });
+    }
+  } catch (err) {
+    log.error("Failed to restore transcript", { component: "history", sessionId, error: err });
+  }
+}
+
+// Seconds a client should wait before resending a turn the container dropped while stopping
+const CONTAINER_RETRY_AFTER = 5;
+
+// The container socket closed before the turn ended, e.g. the container was stopped or put to sleep
+const containerStoppedError = (): ErrorFrame => ({
+  ...errorFrame("container_draining", "Container stopped before the turn finished"),
+  retryAfter: CONTAINER_RETRY_AFTER,
+});
+
+// Collects the frames relayed during one turn and persists them to history once it ends
+function createTurnRecorder(
+  instance: AgentContainerStub,
+  executionCtx: { waitUntil(promise: Promise<unknown>): void },
+  prompt: string,
+  log: Logger,
+  sessionId?: string
+) {
+  const frames: ServerFrame[] = [];
+  let recorded = false;
+
+  return {
+    push(frame: ServerFrame) {
+      // Capture session ID from first session_created message
+      if (frame.type === "session_created") {
+        sessionId = frame.claudeSessionId;
+      }
+      // Queue positions and shutdown notices are transient status, not part of the conversation
+      if (frame.type === "queued" || frame.type === "draining" || frame.type === "reconnecting") return;
+      frames.push(frame);
+    },
+    flush() {
+      if (recorded || !sessionId) return;
+      recorded = true;
+      const id = sessionId;
+      executionCtx.waitUntil(
+        instance.recordTurn(id, prompt, frames).catch((err) => {
+          log.error("Failed to record turn", { component: "history", sessionId: id, error: err });
+        })
+      );
+      executionCtx.waitUntil(
+        instance.saveTranscript(id).catch((err) => {
+          log.error("Failed to save transcript", { component: "history", sessionId: id, error: err });
+        })
+      );
+    },
+  };
+}
+
+type TurnRecorder = ReturnType<typeof createTurnRecorder>;
+
+// One prompt on a /ws socket, from the Worker accepting it until its `complete` or `error` frame
+interface SocketTurn {
+  recorder: TurnRecorder;
+  // Carries the turn's requestId, and its session ID once known
+  log: Logger;
+  // Turn and prompt spans, ended with the turn
+  spans: Span[];
 }
 
-const app = new Hono<{ Bindings: Env }>();
+interface TurnRelayOptions {
+  instance: AgentContainerStub;
+  // Sent with `resume`; the container only resumes turns this account started
+  accountId: string;
+  executionCtx: { waitUntil(promise: Promise<unknown>): void };
+  turnId: string;
+  format: StreamFormat;
+  // Frames up to this `seq` are already with the client and are only recorded, not relayed
+  after: number;
+  recorder: TurnRecorder | null;
+  log: Logger;
+  // Called with each container frame before it is relayed
+  onFrame?(frame: ServerFrame): void;
+  onReconnect?(lastSeq: number): void;
+  // Called once when the stream closes, with the error frame that ended the turn if any
+  onClose(error?: ErrorFrame): void;
+}
+
+// Relays one turn's frames from the container into an NDJSON or SSE stream. If the container socket drops
+// mid-turn, it reconnects with backoff and resumes after the last frame it received.
+function createTurnRelay(controller: ReadableStreamDefaultController<Uint8Array>, options: TurnRelayOptions) {
+  const { instance, executionCtx, accountId, turnId, format, log } = options;
+  const encoder = new TextEncoder();
+  let recorder = options.recorder;
+  let containerWs: WebSocket | null = null;
+  let ended = false;
+  // Highest `seq` received so far; replayed duplicates are dropped
+  let lastSeq = recorder ? 0 : options.after;
+  let resuming = false;
+
+  let lastWriteAt = Date.now();
+  const enqueue = (frame: ServerFrame) => {
+    controller.enqueue(encoder.encode(formatFrame({ turnId, ...frame }, format)));
+    lastWriteAt = Date.now();
+  };
+
+  // Keeps SSE connections alive through tool runs that send nothing for a while
+  const heartbeat = format === "sse"
+    ? setInterval(() => {
+        if (Date.now() - lastWriteAt < SSE_HEARTBEAT_MS) return;
+        try {
+          controller.enqueue(encoder.encode(SSE_HEARTBEAT));
+          lastWriteAt = Date.now();
+        } catch {
+          clearInterval(heartbeat);
+        }
+      }, SSE_HEARTBEAT_MS / 3)
+    : null;
+
+  const close = (error?: ErrorFrame) => {
+    if (ended) return;
+    ended = true;
+    clearInterval(heartbeat);
+    recorder?.flush();
+    executionCtx.waitUntil(instance.endTurn(turnId));
+    options.onClose(error);
+    try {
+      if (error) enqueue(error);
+      controller.close();
+    } catch {
+      log.debug("Stream already closed");
+    }
+    try {
+      containerWs?.close();
+    } catch {
+      // Already closed
+    }
+  };
+
+  const resume = (ws: WebSocket) => {
+    resuming = true;
+    ws.send(encodeFrame({ type: "resume", requestId: turnId, after: lastSeq, accountId }));
+  };
+
+  const handleFrame = (message: ServerFrame) => {
+    if (message.seq !== undefined) {
+      if (message.seq <= lastSeq) return;
+      lastSeq = message.seq;
+    }
+    log.debug("Relaying frame", { frameType: message.type, seq: message.seq });
+
+    if (message.type === "error") {
+      if (resuming && message.code === "turn_not_found") {
+        // Frames before the client's position were already dropped: resume without recording
+        if (recorder && lastSeq < options.after) {
+          log.info("Turn only partly buffered, not recording it", { after: options.after });
+          recorder = null;
+          lastSeq = options.after;
+          if (containerWs) resume(containerWs);
+          return;
+        }
+        // The container restarted and no longer has the turn: the client should resend it
+        log.warn("Turn lost with the container", { error: message.error });
+        close(containerStoppedError());
+        return;
+      }
+      close(message);
+      return;
+    }
+
+    // Acknowledgements for our own cancel requests aren't relayed
+    if (message.type === "cancel_ack") return;
+
+    options.onFrame?.(message);
+    recorder?.push(message);
+    if (message.seq === undefined || message.seq > options.after) {
+      enqueue(message);
+    }
+
+    if (message.type === "complete") {
+      log.info("Turn completed", { cancelled: !!message.cancelled, usage: message.usage });
+      close();
+    }
+  };
+
+  const reconnect = async () => {
+    options.onReconnect?.(lastSeq);
+    for (let attempt = 1; attempt <= RECONNECT_BACKOFF.attempts; attempt++) {
+      const delayMs = backoffDelay(attempt, RECONNECT_BACKOFF);
+      try {
+        enqueue({ type: "reconnecting", attempt, delayMs });
+      } catch {
+        return;
+      }
+      await sleep(delayMs);
+      if (ended) return;
+      try {
+        const ws = await connectToContainer(instance);
+        attach(ws);
+        resume(ws);
+        log.info("Reconnected to container", { attempt, after: lastSeq });
+        return;
+      } catch (error) {
+        log.warn("Reconnect failed", { attempt, error: error instanceof Error ? error.message : String(error) });
+      }
+    }
+    close(containerStoppedError());
+  };
+
+  // Only the current socket's close or error triggers a reconnect
+  const attach = (ws: WebSocket) => {
+    containerWs = ws;
+    let dropped = false;
+    const onDropped = () => {
+      if (dropped || containerWs !== ws || ended) return;
+      dropped = true;
+      log.warn("Container socket dropped mid-turn", { lastSeq });
+      void reconnect();
+    };
+
+    ws.addEventListener("message", (event) => {
+      let message: ServerFrame;
+      try {
+        message = parseServerFrame(event.data as string);
+      } catch (e) {
+        const errorMessage = e instanceof Error ? e.message : String(e);
+        log.error("Rejected container frame", { error: errorMessage });
+        relay.cancel();
+        close(e instanceof ProtocolError ? errorFrame(e.code, errorMessage) : errorFrame("container_error", errorMessage));
+        return;
+      }
+      try {
+        handleFrame(message);
+      } catch (e) {
+        log.error("Failed to relay frame", { error: e });
+      }
+    });
+    ws.addEventListener("close", () => {
+      log.info("Container socket closed");
+      onDropped();
+    });
+    ws.addEventListener("error", (event) => {
+      log.error("Container socket error", { eventType: event.type });
+      onDropped();
+    });
+  };
+
+  const relay = {
+    get ended() {
+      return ended;
+    },
+    attach,
+    resume,
+    close,
+    // Ask the container to interrupt the turn (it timed out, or a frame couldn't be understood)
+    cancel() {
+      try {
+        containerWs?.send(encodeFrame({ type: "cancel", requestId: turnId }));
+      } catch {
+        // Socket already closed, nothing left to cancel
+      }
+    },
+    // The client went away: leave the turn running, with its turn slot, so it can be resumed from
+    // GET /query/:turnId/stream; the container cancels it if nobody does
+    detach() {
+      if (ended) return;
+      ended = true;
+      clearInterval(heartbeat);
+      executionCtx.waitUntil(instance.detachTurn(turnId));
+      options.onClose();
+      try {
+        containerWs?.close();
+      } catch {
+        // Already closed
+      }
+    },
+  };
+  return relay;
+}
 
 app.get("/health", (c) => {
   return c.json({
@@ -51,38 +969,77 @@ app.get("/health", (c) => {
   });
 });
 
-app.get("/config", (c) => {
-  // Customize this endpoint to advertise your skills and MCP servers
+// Public; signed-in callers also get the skills and MCP servers their container has loaded
+app.get("/config", optionalAuth, async (c) => {
+  const policy = getOptionsPolicy(c.env);
+  const accountId = c.get("accountId");
+  let discovery: ContainerDiscovery | null = null;
+  if (accountId) {
+    try {
+      discovery = await c.env.AGENT_CONTAINER.get(c.env.AGENT_CONTAINER.idFromName(accountId)).getDiscovery();
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      c.get("log").error("Discovery unavailable", { component: "config", error: errorMessage });
+    }
+  }
+
   return c.json({
     requiresApiKey: !c.env?.ANTHROPIC_API_KEY,
-    skills: [],      // Add your skills here
-    mcpServers: [],  // Add your MCP servers here
+    // Whether accounts can store their own key via /settings/api-key
+    apiKeySettings: isApiKeyEncryptionConfigured(c.env),
+    devLogin: isDevLoginEnabled(c.env),
+    defaultModel: policy.defaultModel,
+    models: policy.models,
+    profiles: Object.entries(policy.profiles).map(([name, profile]) => ({
+      name,
+      description: profile.description || "",
+      model: profile.model || policy.defaultModel,
+    })),
+    skills: discovery?.skills ?? [],
+    mcpServers: discovery?.mcpServers ?? [],
+    tools: discovery?.tools ?? [],
+    // False until the account's container has been started (e.g. by /warmup) and asked
+    discovered: discovery !== null,
   });
 });
 
+app.get("/auth/me", (c) => {
+  return c.json({ accountId: c.get("accountId"), isAdmin: isAdmin(c.env, c.get("accountId")) });
+});
+
+// Development-only login: mints a token for any account ID when AUTH_DEV_LOGIN=true
+app.post("/auth/dev-token", async (c) => {
+  if (!isDevLoginEnabled(c.env)) {
+    return c.json({ error: "Dev login is disabled" }, 404);
+  }
+  const body = await c.req.json().catch(() => ({}));
+  const accountId = typeof body.accountId === "string" ? body.accountId.trim() : "";
+  if (!accountId) {
+    return c.json({ error: "accountId is required" }, 400);
+  }
+  const { token, exp } = await signDevToken(c.env, accountId);
+  c.get("log").info("Issued dev token", { component: "auth", accountId });
+  return c.json({ token, accountId, exp });
+});
+
 app.post("/warmup", async (c) => {
   try {
     const startTime = Date.now();
-    const body = await c.req.json().catch(() => ({}));
-    const accountId = body.accountId || `warmup-${crypto.randomUUID()}`;
+    const accountId = c.get("accountId");
     const id = c.env.AGENT_CONTAINER.idFromName(accountId);
     const instance = c.env.AGENT_CONTAINER.get(id);
 
-    console.log(`[${timestamp()}] [Warmup] Pre-warming container for account: ${accountId}`);
+    c.get("log").info("Pre-warming container", { component: "warmup" });
 
     await instance.startAndWaitForPorts({
       ports: [8081],
       startOptions: {
-        envVars: {
-          ANTHROPIC_API_KEY: c.env.ANTHROPIC_API_KEY || "",
-          MODEL: c.env.MODEL || "claude-haiku-4-5",
-          // Add custom env vars here as needed
-        },
+        envVars: await accountEnvVars(c.env, instance, accountId),
       },
     });
 
     const duration = Date.now() - startTime;
-    console.log(`[${timestamp()}] [Warmup] Container ready in ${duration}ms`);
+    c.get("log").info("Container ready", { component: "warmup", durationMs: duration });
 
     return c.json({
       success: true,
@@ -91,15 +1048,18 @@ app.post("/warmup", async (c) => {
       accountId
     });
   } catch (error) {
+    if (error instanceof ApiKeyError) {
+      return c.json({ error: error.message }, 400);
+    }
     const errorMessage = error instanceof Error ? error.message : String(error);
-    console.error(`[${timestamp()}] [Warmup Error]`, errorMessage);
+    c.get("log").error("Request failed", { component: "warmup", error: errorMessage });
     return c.json({ error: errorMessage }, 500);
   }
 });
 
 app.get("/pool-status", async (c) => {
   try {
-    const accountId = c.req.query('accountId') || `status-check-${crypto.randomUUID()}`;
+    const accountId = c.get("accountId");
     const id = c.env.AGENT_CONTAINER.idFromName(accountId);
     const instance = c.env.AGENT_CONTAINER.get(id);
 
@@ -136,155 +1096,1020 @@ app.get("/pool-status", async (c) => {
   }
 });
 
-app.post("/query", async (c) => {
+app.get("/sessions", async (c) => {
   try {
-    const queryStartTime = Date.now();
-    console.log(`[${timestamp()}] [Query] Incoming request`);
-    const body = await c.req.json().catch(() => ({}));
-    const prompt = body.query || body.prompt;
-    const accountId = body.accountId || `anonymous-${crypto.randomUUID()}`;
-    let sessionId = body.sessionId;
+    const accountId = c.get("accountId");
+    const instance = c.env.AGENT_CONTAINER.get(c.env.AGENT_CONTAINER.idFromName(accountId));
+    const sessions = await instance.listSessions();
+    return c.json({ sessions });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    c.get("log").error("Request failed", { component: "sessions", error: errorMessage });
+    return c.json({ error: errorMessage }, 500);
+  }
+});
 
-    // Check for API key from environment
-    const apiKey = c.env.ANTHROPIC_API_KEY;
-    if (!apiKey) {
-      return c.json({ error: "ANTHROPIC_API_KEY must be configured" }, 400);
+app.get("/sessions/:id/messages", async (c) => {
+  try {
+    const accountId = c.get("accountId");
+    const instance = c.env.AGENT_CONTAINER.get(c.env.AGENT_CONTAINER.idFromName(accountId));
+    const messages = await instance.getSessionMessages(c.req.param('id'));
+    if (!messages) {
+      return c.json({ error: "Session not found" }, 404);
     }
+    return c.json({ messages });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    c.get("log").error("Request failed", { component: "sessions", error: errorMessage });
+    return c.json({ error: errorMessage }, 500);
+  }
+});
 
-    if (!prompt) {
-      return c.json({ error: "No prompt provided" }, 400);
+app.delete("/sessions/:id", async (c) => {
+  try {
+    const accountId = c.get("accountId");
+    const instance = c.env.AGENT_CONTAINER.get(c.env.AGENT_CONTAINER.idFromName(accountId));
+    const deleted = await instance.deleteSession(c.req.param('id'));
+    return c.json({ success: deleted });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    c.get("log").error("Request failed", { component: "sessions", error: errorMessage });
+    return c.json({ error: errorMessage }, 500);
+  }
+});
+
+// Prometheus metrics of the account's container session pool, proxied as-is. Like /usage it is
+// scoped to the caller's account, and a stopped container is reported rather than started.
+app.get("/metrics", async (c) => {
+  try {
+    const accountId = c.get("accountId");
+    const requested = c.req.query("accountId");
+    if (requested && requested !== accountId) {
+      return c.json({ error: "Metrics are only available for your own account" }, 403);
     }
 
-    const id = c.env.AGENT_CONTAINER.idFromName(accountId);
-    console.log(`[${timestamp()}] [Query] Using account ID: ${accountId}`);
-    const instance = c.env.AGENT_CONTAINER.get(id);
+    const instance = c.env.AGENT_CONTAINER.get(c.env.AGENT_CONTAINER.idFromName(accountId));
+    const state = await instance.getState();
+    if (state.status !== "running" && state.status !== "healthy") {
+      return c.text("# Container is not running\n", 503);
+    }
 
-    const containerStartTime = Date.now();
-    console.log(`[${timestamp()}] [Query] Starting container...`);
+    return await instance.fetch(new Request("http://container.internal/metrics"));
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    c.get("log").error("Request failed", { component: "metrics", error: errorMessage });
+    return c.json({ error: errorMessage }, 500);
+  }
+});
 
-    await instance.startAndWaitForPorts({
-      ports: [8081],
-      startOptions: {
-        envVars: {
-          ANTHROPIC_API_KEY: apiKey,
-          MODEL: c.env.MODEL || "claude-haiku-4-5",
-          // Add custom env vars here as needed
-        },
-      },
-    });
+// Operator view across all accounts, restricted to ADMIN_ACCOUNTS
+app.use("/admin/*", requireAdmin);
 
-    const containerDuration = Date.now() - containerStartTime;
-    console.log(`[${timestamp()}] [Query] Container ready in ${containerDuration}ms`);
-    console.log(`[${timestamp()}] [Query] Starting WebSocket connection`);
+// Resolves an AgentContainer from the object ID the registry lists; null for malformed IDs
+const containerById = (env: Env, objectId: string): AgentContainerStub | null => {
+  try {
+    return env.AGENT_CONTAINER.get(env.AGENT_CONTAINER.idFromString(objectId));
+  } catch {
+    return null;
+  }
+};
 
-    // Create a ReadableStream that connects to WebSocket and streams responses
-    const encoder = new TextEncoder();
-    const stream = new ReadableStream({
-      async start(controller) {
-        try {
-          const containerUrl = "http://container.internal/ws";
-          
-          // Use Cloudflare Workers WebSocket API
-          const resp = await instance.fetch(containerUrl, {
-            headers: {
-              Upgrade: "websocket",
-            },
-          });
-          
-          // If the WebSocket handshake completed successfully, then the
-          // response has a `webSocket` property.
-          const ws = resp.webSocket;
-          if (!ws) {
-            throw new Error("server didn't accept WebSocket");
+// Registered containers with live pool and turn status. Containers that turn out not to be running
+// are marked stopped, which covers instances that went away without onStop being called.
+app.get("/admin/containers", async (c) => {
+  try {
+    const registry = getRegistry(c.env);
+    const containers = await Promise.all(
+      (await registry.list()).map(async (entry) => {
+        const instance = entry.stoppedAt === null ? containerById(c.env, entry.objectId) : null;
+        if (!instance) {
+          return { ...entry, running: false, status: null };
+        }
+        try {
+          const status = await instance.getAdminStatus();
+          if (!status) {
+            await registry.markStopped(entry.objectId);
+            return { ...entry, stoppedAt: Date.now(), running: false, status: null };
           }
-          
-          // Call accept() to indicate that you'll be handling the socket here
-          ws.accept();
-          
-          const closeStream = (error?: Error) => {
-            try{
-              if (error) {
-                controller.enqueue(encoder.encode(JSON.stringify({ error: error.message }) + "\n"));
-              }
-              controller.close();
-              ws.close();
-            }
-            catch{
-              console.log("Close stream error");
-            }
-          };
-
-          console.log(`[${timestamp()}] [Query] WebSocket connected to container`);
-          ws.send(JSON.stringify({ prompt, sessionId }));
-
-          ws.addEventListener("message", (event) => {
-            try {
-              const message = JSON.parse(event.data);
-
-              // Only log non-verbose messages
-              if (message.type === 'text_chunk' || message.type === 'complete') {
-                console.log(`[${timestamp()}] [Query] ${message.type}`);
-              } else {
-                console.log(`[${timestamp()}] [Query] Message:`, message);
-              }
-              
-              if (message.error) {
-                closeStream(new Error(message.error));
-                return;
-              }
+          return { ...entry, running: true, status };
+        } catch (error) {
+          const errorMessage = error instanceof Error ? error.message : String(error);
+          return { ...entry, running: true, status: null, error: errorMessage };
+        }
+      })
+    );
+    return c.json({ containers, now: Date.now() });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    c.get("log").error("Request failed", { component: "admin", error: errorMessage });
+    return c.json({ error: errorMessage }, 500);
+  }
+});
 
-              // Capture session ID from first session_created message
-              if (message.type === "session_created" && message.claudeSessionId) {
-                sessionId = message.claudeSessionId;
-              }
+app.post("/admin/containers/:objectId/stop", async (c) => {
+  try {
+    const objectId = c.req.param("objectId");
+    const instance = containerById(c.env, objectId);
+    if (!instance) {
+      return c.json({ error: "Invalid container ID" }, 400);
+    }
+    const stopped = await instance.forceStop();
+    await getRegistry(c.env).markStopped(objectId);
+    c.get("log").warn("Container force-stopped by admin", { component: "admin", objectId, stopped });
+    return c.json({ stopped });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    c.get("log").error("Request failed", { component: "admin", error: errorMessage });
+    return c.json({ error: errorMessage }, 500);
+  }
+});
+
+app.delete("/admin/containers/:objectId/sessions/:sessionId", async (c) => {
+  try {
+    const { objectId, sessionId } = c.req.param();
+    const instance = containerById(c.env, objectId);
+    if (!instance) {
+      return c.json({ error: "Invalid container ID" }, 400);
+    }
+    const result = await instance.evictSession(sessionId);
+    if (!result) {
+      return c.json({ error: "Session not found in a running container" }, 404);
+    }
+    c.get("log").warn("Session evicted by admin", { component: "admin", objectId, sessionId, ...result });
+    return c.json(result);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    c.get("log").error("Request failed", { component: "admin", error: errorMessage });
+    return c.json({ error: errorMessage }, 500);
+  }
+});
+
+// Usage is always scoped to the caller's account; `accountId` may only name that account
+app.get("/usage", async (c) => {
+  try {
+    const accountId = c.get("accountId");
+    const requested = c.req.query("accountId");
+    if (requested && requested !== accountId) {
+      return c.json({ error: "Usage is only available for your own account" }, 403);
+    }
+
+    const days = Math.min(Math.max(Number(c.req.query("days")) || 30, 1), 365);
+    const instance = c.env.AGENT_CONTAINER.get(c.env.AGENT_CONTAINER.idFromName(accountId));
+    const [usage, sessions] = await Promise.all([instance.getUsage(days), instance.listSessions()]);
+    return c.json({
+      accountId,
+      days,
+      ...usage,
+      sessions: sessions.map((session) => ({ id: session.id, usage: session.usage })),
+    });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    c.get("log").error("Request failed", { component: "usage", error: errorMessage });
+    return c.json({ error: errorMessage }, 500);
+  }
+});
+
+app.get("/permissions", async (c) => {
+  try {
+    const instance = c.env.AGENT_CONTAINER.get(c.env.AGENT_CONTAINER.idFromName(c.get("accountId")));
+    return c.json({ allowedTools: await instance.getAllowedTools() });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    c.get("log").error("Request failed", { component: "permissions", error: errorMessage });
+    return c.json({ error: errorMessage }, 500);
+  }
+});
+
+app.put("/permissions", async (c) => {
+  try {
+    const body = await c.req.json().catch(() => ({}));
+    const tools = body.allowedTools;
+    if (!Array.isArray(tools) || !tools.every((t) => typeof t === "string" && t.length > 0)) {
+      return c.json({ error: "allowedTools must be an array of tool names" }, 400);
+    }
+    const instance = c.env.AGENT_CONTAINER.get(c.env.AGENT_CONTAINER.idFromName(c.get("accountId")));
+    return c.json({ allowedTools: await instance.setAllowedTools(tools) });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    c.get("log").error("Request failed", { component: "permissions", error: errorMessage });
+    return c.json({ error: errorMessage }, 500);
+  }
+});
+
+// Sessions get the account's registered MCP servers on top of the resolved options
+async function withAccountMcpServers(instance: AgentContainerStub, options: SessionConfig): Promise<SessionConfig> {
+  const mcpServers = toSessionMcpServers(await instance.getMcpServers());
+  return mcpServers ? { ...options, mcpServers } : options;
+}
+
+app.get("/mcp-servers", async (c) => {
+  try {
+    const instance = c.env.AGENT_CONTAINER.get(c.env.AGENT_CONTAINER.idFromName(c.get("accountId")));
+    const servers = await instance.getMcpServers();
+    return c.json({
+      servers: Object.keys(servers).sort().map((name) => toPublicMcpServer(name, servers[name])),
+    });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    c.get("log").error("Request failed", { component: "mcp", error: errorMessage });
+    return c.json({ error: errorMessage }, 500);
+  }
+});
+
+// Adds or updates a server; takes effect on the account's next turn
+app.put("/mcp-servers/:name", async (c) => {
+  try {
+    const name = validateMcpServerName(c.req.param("name"));
+    const accountId = c.get("accountId");
+    const instance = c.env.AGENT_CONTAINER.get(c.env.AGENT_CONTAINER.idFromName(accountId));
+    const servers = await instance.getMcpServers();
+    const existing = servers[name];
+    if (!existing && Object.keys(servers).length >= MAX_MCP_SERVERS) {
+      return c.json({ error: `At most ${MAX_MCP_SERVERS} MCP servers per account` }, 400);
+    }
+
+    const body = await c.req.json().catch(() => null);
+    const server = buildMcpServer(body, existing);
+    await instance.putMcpServer(name, server);
+    c.get("log").info(existing ? "Updated MCP server" : "Added MCP server", { component: "mcp", server: name });
+    return c.json(toPublicMcpServer(name, server), existing ? 200 : 201);
+  } catch (error) {
+    if (error instanceof McpServerError) {
+      return c.json({ error: error.message }, 400);
+    }
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    c.get("log").error("Request failed", { component: "mcp", error: errorMessage });
+    return c.json({ error: errorMessage }, 500);
+  }
+});
+
+app.delete("/mcp-servers/:name", async (c) => {
+  try {
+    const name = c.req.param("name");
+    const accountId = c.get("accountId");
+    const instance = c.env.AGENT_CONTAINER.get(c.env.AGENT_CONTAINER.idFromName(accountId));
+    if (!(await instance.deleteMcpServer(name))) {
+      return c.json({ error: "MCP server not found" }, 404);
+    }
+    c.get("log").info("Removed MCP server", { component: "mcp", server: name });
+    return c.json({ success: true, name });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    c.get("log").error("Request failed", { component: "mcp", error: errorMessage });
+    return c.json({ error: errorMessage }, 500);
+  }
+});
+
+// Health check: connects to the server and lists its tools; failures are reported, not thrown
+app.post("/mcp-servers/:name/check", async (c) => {
+  try {
+    const name = c.req.param("name");
+    const instance = c.env.AGENT_CONTAINER.get(c.env.AGENT_CONTAINER.idFromName(c.get("accountId")));
+    const server = (await instance.getMcpServers())[name];
+    if (!server) {
+      return c.json({ error: "MCP server not found" }, 404);
+    }
+    const result = await checkMcpServer(server);
+    if (!result.ok) {
+      c.get("log").info("MCP server check failed", { component: "mcp", server: name, error: result.error });
+    }
+    return c.json({ name, ...result });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    c.get("log").error("Request failed", { component: "mcp", error: errorMessage });
+    return c.json({ error: errorMessage }, 500);
+  }
+});
+
+// Never includes the key itself; `fallback` says whether the deployment's key is used when none is set
+async function apiKeyStatus(env: Env, instance: AgentContainerStub) {
+  const stored = await instance.getApiKey();
+  return {
+    configured: !!stored,
+    updatedAt: stored?.updatedAt ?? null,
+    fallback: !!env.ANTHROPIC_API_KEY,
+    encryptionConfigured: isApiKeyEncryptionConfigured(env),
+  };
+}
+
+app.get("/settings/api-key", async (c) => {
+  try {
+    const instance = c.env.AGENT_CONTAINER.get(c.env.AGENT_CONTAINER.idFromName(c.get("accountId")));
+    return c.json(await apiKeyStatus(c.env, instance));
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    c.get("log").error("Request failed", { component: "settings", error: errorMessage });
+    return c.json({ error: errorMessage }, 500);
+  }
+});
+
+// Sets or rotates the account's key; the running container is stopped so the next turn uses it
+app.put("/settings/api-key", async (c) => {
+  try {
+    const body = await c.req.json().catch(() => ({}));
+    const accountId = c.get("accountId");
+    const stored = await encryptApiKey(c.env, accountId, validateApiKey(body.apiKey));
+    const instance = c.env.AGENT_CONTAINER.get(c.env.AGENT_CONTAINER.idFromName(accountId));
+    await instance.setApiKey(stored);
+    c.get("log").info("API key updated", { component: "settings" });
+    return c.json(await apiKeyStatus(c.env, instance));
+  } catch (error) {
+    if (error instanceof ApiKeyError) {
+      return c.json({ error: error.message }, 400);
+    }
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    c.get("log").error("Request failed", { component: "settings", error: errorMessage });
+    return c.json({ error: errorMessage }, 500);
+  }
+});
+
+app.delete("/settings/api-key", async (c) => {
+  try {
+    const accountId = c.get("accountId");
+    const instance = c.env.AGENT_CONTAINER.get(c.env.AGENT_CONTAINER.idFromName(accountId));
+    await instance.deleteApiKey();
+    c.get("log").info("API key deleted", { component: "settings" });
+    return c.json(await apiKeyStatus(c.env, instance));
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    c.get("log").error("Request failed", { component: "settings", error: errorMessage });
+    return c.json({ error: errorMessage }, 500);
+  }
+});
+
+// Start the account's container so the /files routes can reach its workspace handlers
+async function startAccountContainer(env: Env, accountId: string) {
+  const instance = env.AGENT_CONTAINER.get(env.AGENT_CONTAINER.idFromName(accountId));
+  await instance.startAndWaitForPorts({
+    ports: [8081],
+    startOptions: {
+      envVars: await accountEnvVars(env, instance, accountId),
+    },
+  });
+  return instance;
+}
+
+app.get("/files", async (c) => {
+  try {
+    const workspace = c.req.query("workspace") || "";
+    const instance = await startAccountContainer(c.env, c.get("accountId"));
+    return await instance.fetch(
+      new Request(`http://container.internal/files?workspace=${encodeURIComponent(workspace)}`)
+    );
+  } catch (error) {
+    if (error instanceof ApiKeyError) {
+      return c.json({ error: error.message }, 400);
+    }
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    c.get("log").error("Request failed", { component: "files", error: errorMessage });
+    return c.json({ error: errorMessage }, 500);
+  }
+});
+
+app.get("/files/*", async (c) => {
+  try {
+    const workspace = c.req.query("workspace") || "";
+    // Keep the path percent-encoded; the container decodes and validates it
+    const path = new URL(c.req.url).pathname.slice("/files/".length);
+    const instance = await startAccountContainer(c.env, c.get("accountId"));
+    return await instance.fetch(
+      new Request(`http://container.internal/files/${path}?workspace=${encodeURIComponent(workspace)}`)
+    );
+  } catch (error) {
+    if (error instanceof ApiKeyError) {
+      return c.json({ error: error.message }, 400);
+    }
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    c.get("log").error("Request failed", { component: "files", error: errorMessage });
+    return c.json({ error: errorMessage }, 500);
+  }
+});
+
+// Multipart upload: a `workspace` field plus one or more `file` parts, stored by file name
+app.post("/files", async (c) => {
+  try {
+    const body = await c.req.parseBody({ all: true });
+    const workspace = typeof body.workspace === "string" ? body.workspace : "";
+    const files = (Array.isArray(body.file) ? body.file : [body.file]).filter((f): f is File => f instanceof File);
+    if (!workspace || files.length === 0) {
+      return c.json({ error: "Expected a workspace and at least one file" }, 400);
+    }
+
+    const tooLarge = files.find((file) => file.size > MAX_UPLOAD_BYTES);
+    if (tooLarge) {
+      return c.json({ error: `${tooLarge.name} exceeds the ${MAX_UPLOAD_BYTES} byte upload limit` }, 413);
+    }
+
+    const instance = await startAccountContainer(c.env, c.get("accountId"));
+    const stored = [];
+    for (const file of files) {
+      const params = new URLSearchParams({ workspace, path: file.name });
+      const res = await instance.fetch(
+        new Request(`http://container.internal/files?${params}`, {
+          method: "POST",
+          headers: { "Content-Type": "application/octet-stream" },
+          body: await file.arrayBuffer(),
+        })
+      );
+      if (!res.ok) {
+        // Surface the container's validation errors (bad path, size or quota) as-is
+        return new Response(res.body, { status: res.status, headers: res.headers });
+      }
+      stored.push(((await res.json()) as { file: unknown }).file);
+    }
+
+    c.get("log").info("Uploaded files", { component: "files", workspace, count: stored.length });
+    return c.json({ files: stored }, 201);
+  } catch (error) {
+    if (error instanceof ApiKeyError) {
+      return c.json({ error: error.message }, 400);
+    }
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    c.get("log").error("Request failed", { component: "files", error: errorMessage });
+    return c.json({ error: errorMessage }, 500);
+  }
+});
+
+app.post("/query", async (c) => {
+  // One trace per turn: Worker phases here, the turn itself continued by the container
+  const tracer = createTracer(c.env);
+  const querySpan = tracer.startSpan("POST /query", { kind: "server" });
+  try {
+    const queryStartTime = Date.now();
+    const body = await c.req.json().catch(() => ({}));
+    const prompt = body.query || body.prompt;
+    const accountId = c.get("accountId");
+    const sessionId = body.sessionId;
+    const workspace = typeof body.workspace === "string" ? body.workspace : undefined;
+    const attachments = Array.isArray(body.attachments)
+      ? body.attachments.filter((path: unknown): path is string => typeof path === "string")
+      : undefined;
+    // The turn's ID doubles as the log correlation ID; it travels to the container in the prompt frame
+    const requestId: string = typeof body.requestId === "string" && body.requestId ? body.requestId : c.get("requestId");
+    if (!REQUEST_ID_PATTERN.test(requestId)) {
+      return c.json({ error: "requestId must be 1-128 letters, digits or . _ : -", code: "invalid_frame" }, 400);
+    }
+    let log = c.get("log").child({ component: "query", requestId, sessionId, traceId: querySpan.traceId });
+    querySpan.setAttributes({ "request.id": requestId, "account.id": accountId, "session.id": sessionId });
+
+    if (!prompt) {
+      return c.json({ error: "No prompt provided" }, 400);
+    }
 
-              // Stream each message as a JSON line
-              controller.enqueue(encoder.encode(JSON.stringify(message) + "\n"));
+    let options: SessionConfig;
+    try {
+      options = resolveSessionConfig(c.env, body.profile, body.options);
+    } catch (error) {
+      if (error instanceof OptionsError) {
+        return c.json({ error: error.message }, 400);
+      }
+      throw error;
+    }
 
-              if (message.type === "complete") {
-                closeStream();
+    const id = c.env.AGENT_CONTAINER.idFromName(accountId);
+    const instance = c.env.AGENT_CONTAINER.get(id);
+    options = await tracer.trace(querySpan, "do.getMcpServers", () => withAccountMcpServers(instance, options));
+
+    const containerStartTime = Date.now();
+    log.info("Starting container");
+
+    const envVars = await accountEnvVars(c.env, instance, accountId);
+    await tracer.trace(querySpan, "container.start", () =>
+      withRetry(
+        () => instance.startAndWaitForPorts({ ports: [8081], startOptions: { envVars } }),
+        CONTAINER_CONNECT_BACKOFF,
+        (attempt, delayMs, error) =>
+          log.warn("Container start failed, retrying", { attempt, delayMs, error: error instanceof Error ? error.message : String(error) })
+      )
+    );
+
+    log.info("Container ready", { durationMs: Date.now() - containerStartTime });
+
+    if (sessionId) {
+      await tracer.trace(querySpan, "history.restore", () => restoreSession(instance, sessionId, log));
+    }
+
+    const allowedTools = await tracer.trace(querySpan, "do.getAllowedTools", () => instance.getAllowedTools());
+
+    // Holds the turn slot taken by enforceQuota until the turn ends, even if this stream doesn't see it
+    // end, and lets a resumed stream (GET /query/:turnId/stream) record it
+    if (!(await instance.beginTurn(requestId, prompt, sessionId ?? null, c.get("quotaTicket") ?? null))) {
+      querySpan.end();
+      flushTraces(tracer, c.executionCtx, log);
+      return c.json({ error: "requestId is already used by a running turn", code: "duplicate_request" }, 409);
+    }
+
+    // The turn span covers the prompt until the stream ends; both spans are exported then
+    let turnSpan: Span | null = null;
+    const endTrace = (error?: string) => {
+      if (error) {
+        turnSpan?.recordError(error);
+        querySpan.recordError(error);
+      }
+      turnSpan?.end();
+      querySpan.end();
+      flushTraces(tracer, c.executionCtx, log);
+    };
+
+    // Stream the turn's frames as JSON lines, or as SSE events if the client asked for them
+    const format = negotiateStreamFormat(c.req.header("Accept"));
+    let relay: ReturnType<typeof createTurnRelay> | null = null;
+    const stream = new ReadableStream<Uint8Array>({
+      async start(controller) {
+        try {
+          const turnRelay = createTurnRelay(controller, {
+            instance,
+            executionCtx: c.executionCtx,
+            accountId,
+            turnId: requestId,
+            format,
+            after: 0,
+            // Frames relayed to the client, persisted to history once the turn ends
+            recorder: createTurnRecorder(instance, c.executionCtx, prompt, log, sessionId),
+            log,
+            onFrame(message) {
+              if (message.type === "session_created") {
+                log = log.child({ sessionId: message.claudeSessionId });
+                turnSpan?.setAttributes({ "session.id": message.claudeSessionId });
               }
-            } catch (e) {
-              console.error(`[${timestamp()}] [Query] Failed to parse message:`, e);
-            }
+              if (message.type === "text_chunk") {
+                turnSpan?.addEvent("text_chunk");
+              }
+            },
+            onReconnect(lastSeq) {
+              turnSpan?.addEvent("reconnect", { lastSeq });
+            },
+            onClose(error) {
+              endTrace(error?.error);
+            },
           });
+          relay = turnRelay;
 
-          ws.addEventListener("close", () => {
-            console.log(`[${timestamp()}] [Query] WebSocket closed`);
-            if (controller.desiredSize !== null) {
-              closeStream();
-            }
-          });
+          const ws = await tracer.trace(querySpan, "container.connect", () =>
+            withRetry(() => connectToContainer(instance), CONTAINER_CONNECT_BACKOFF, (attempt, delayMs, error) =>
+              log.warn("Container connect failed, retrying", { attempt, delayMs, error: error instanceof Error ? error.message : String(error) })
+            )
+          );
+          turnRelay.attach(ws);
 
-          ws.addEventListener("error", (event) => {
-            console.error(`[${timestamp()}] [Query] WebSocket error:`, event);
-            closeStream(new Error("WebSocket connection failed"));
-          });
+          log.info("Connected to container", { sinceRequestMs: Date.now() - queryStartTime });
+          turnSpan = querySpan.startChild("turn", "client");
+          const traceparent = turnSpan.traceparent();
+          ws.send(encodeFrame({ type: "prompt", prompt, sessionId, requestId, allowedTools, options, workspace, attachments, traceparent, accountId }));
 
           // Timeout after 5 minutes
           setTimeout(() => {
-            closeStream(new Error("Query timeout"));
+            if (turnRelay.ended) return;
+            turnRelay.cancel();
+            turnRelay.close(errorFrame("timeout", "Query timeout"));
           }, 5 * 60 * 1000);
         } catch (error) {
           const errorMessage = error instanceof Error ? error.message : String(error);
-          console.error(`[${timestamp()}] [Query Stream Error]`, errorMessage);
-          controller.enqueue(encoder.encode(JSON.stringify({ error: errorMessage }) + "\n"));
+          log.error("Stream failed", { error: errorMessage });
+          controller.enqueue(new TextEncoder().encode(formatFrame({ ...errorFrame("container_error", errorMessage), turnId: requestId }, format)));
           controller.close();
+          c.executionCtx.waitUntil(instance.endTurn(requestId));
+          endTrace(errorMessage);
+        }
+      },
+      cancel() {
+        log.info("Client disconnected, leaving turn to be resumed");
+        turnSpan?.setAttributes({ "turn.client_disconnected": true });
+        if (relay) {
+          relay.detach();
+        } else {
+          c.executionCtx.waitUntil(instance.endTurn(requestId));
+          endTrace();
         }
       },
     });
 
-    return c.newResponse(stream, {
-      headers: {
-        "Content-Type": "application/x-ndjson",
-        "Transfer-Encoding": "chunked",
+    return c.newResponse(stream, { headers: streamHeaders(format, requestId) });
+  } catch (error: unknown) {
+    querySpan.recordError(error);
+    querySpan.end();
+    flushTraces(tracer, c.executionCtx, c.get("log"));
+    if (error instanceof ApiKeyError) {
+      return c.json({ error: error.message }, 400);
+    }
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    c.get("log").error("Request failed", { component: "query", error: errorMessage });
+    return c.json({ error: errorMessage }, 500);
+  }
+});
+
+// Resume a turn's stream after the client lost it, from the frame after `after`. EventSource
+// reconnects send the last event ID instead.
+app.get("/query/:turnId/stream", async (c) => {
+  const turnId = c.req.param("turnId");
+  const after = Number(c.req.query("after") ?? c.req.header("Last-Event-ID") ?? 0);
+  const format = negotiateStreamFormat(c.req.header("Accept"));
+  const log = c.get("log").child({ component: "query", requestId: turnId, after });
+  try {
+    if (!Number.isInteger(after) || after < 0) {
+      return c.json({ error: "after must be a non-negative integer" }, 400);
+    }
+
+    const accountId = c.get("accountId");
+    const instance = c.env.AGENT_CONTAINER.get(c.env.AGENT_CONTAINER.idFromName(accountId));
+    // Turns only live in a running container; don't start one just to find nothing
+    const state = await instance.getState();
+    if (state.status !== "running" && state.status !== "healthy") {
+      return c.json({ error: "Turn is no longer available", code: "turn_not_found" }, 404);
+    }
+
+    // Only the account that started the turn may follow it; others are told it doesn't exist
+    const turnResp = await instance.fetch(
+      new Request(`http://container.internal/turns/${encodeURIComponent(turnId)}`)
+    );
+    const turn = turnResp.ok ? await turnResp.json<{ owner: string | null }>() : null;
+    if (!turn || turn.owner !== accountId) {
+      if (turn) log.warn("Resume by another account refused");
+      return c.json({ error: "Turn is no longer available", code: "turn_not_found" }, 404);
+    }
+
+    const ws = await connectToContainer(instance);
+    // Not recorded yet: replay the whole turn so it can be, relaying only what the client lacks
+    const pending = await instance.attachTurn(turnId);
+    const recorder = pending
+      ? createTurnRecorder(instance, c.executionCtx, pending.prompt, log, pending.sessionId ?? undefined)
+      : null;
+    log.info("Resuming turn stream", { recording: !!recorder });
+
+    let relay: ReturnType<typeof createTurnRelay> | null = null;
+    const stream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        relay = createTurnRelay(controller, {
+          instance,
+          executionCtx: c.executionCtx,
+          accountId,
+          turnId,
+          format,
+          after,
+          recorder,
+          log,
+          onClose(error) {
+            if (error) log.warn("Resumed stream ended with an error", { code: error.code });
+          },
+        });
+        relay.attach(ws);
+        relay.resume(ws);
+      },
+      cancel() {
+        log.info("Client disconnected from resumed stream");
+        relay?.detach();
       },
     });
-  } catch (error: unknown) {
+
+    return c.newResponse(stream, { headers: streamHeaders(format, turnId) });
+  } catch (error) {
     const errorMessage = error instanceof Error ? error.message : String(error);
-    console.error(`[${timestamp()}] [Query Error]`, errorMessage);
+    log.error("Request failed", { error: errorMessage });
     return c.json({ error: errorMessage }, 500);
   }
 });
 
+app.post("/query/:requestId/cancel", async (c) => {
+  try {
+    const requestId = c.req.param("requestId");
+    const accountId = c.get("accountId");
+    const instance = c.env.AGENT_CONTAINER.get(c.env.AGENT_CONTAINER.idFromName(accountId));
+
+    // Don't start a stopped container just to cancel nothing
+    const state = await instance.getState();
+    if (state.status !== "running" && state.status !== "healthy") {
+      return c.json({ cancelled: false, error: "Container is not running" }, 404);
+    }
+
+    c.get("log").info("Cancelling turn", { component: "cancel", requestId });
+    const resp = await instance.fetch(
+      new Request(`http://container.internal/turns/${encodeURIComponent(requestId)}/cancel`, { method: "POST" })
+    );
+    const data = await resp.json<{ cancelled: boolean }>();
+    if (!data.cancelled) {
+      return c.json({ cancelled: false, error: "Turn not found" }, 404);
+    }
+    return c.json({ cancelled: true });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    c.get("log").error("Request failed", { component: "cancel", error: errorMessage });
+    return c.json({ error: errorMessage }, 500);
+  }
+});
+
+// Answer a permission_request frame for clients on the NDJSON stream
+app.post("/query/:requestId/permissions/:permissionId", async (c) => {
+  try {
+    const body = await c.req.json().catch(() => ({}));
+    if (typeof body.allow !== "boolean") {
+      return c.json({ error: "allow must be a boolean" }, 400);
+    }
+
+    const instance = c.env.AGENT_CONTAINER.get(c.env.AGENT_CONTAINER.idFromName(c.get("accountId")));
+    // Pending permissions only exist in a running container; fetching would start one without the account's key
+    const state = await instance.getState();
+    if (state.status !== "running" && state.status !== "healthy") {
+      return c.json({ resolved: false, error: "Container is not running" }, 404);
+    }
+
+    if (body.allow && body.remember && typeof body.toolName === "string") {
+      await instance.allowTool(body.toolName);
+    }
+
+    const permissionId = c.req.param("permissionId");
+    const resp = await instance.fetch(
+      new Request(`http://container.internal/permissions/${encodeURIComponent(permissionId)}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ allow: body.allow }),
+      })
+    );
+    const data = await resp.json<{ resolved: boolean }>();
+    if (!data.resolved) {
+      return c.json({ resolved: false, error: "Permission request not pending" }, 404);
+    }
+    return c.json({ resolved: true });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    c.get("log").error("Request failed", { component: "permissions", error: errorMessage });
+    return c.json({ error: errorMessage }, 500);
+  }
+});
+
+// Long-lived chat socket: proxies the client to one container WebSocket for the
+// whole conversation so follow-up prompts skip the per-turn handshake
+app.get("/ws", async (c) => {
+  if (c.req.header("Upgrade") !== "websocket") {
+    return c.json({ error: "Expected WebSocket upgrade" }, 426);
+  }
+
+  // The upgrade gets its own trace; every prompt on the socket then starts a new one
+  const tracer = createTracer(c.env);
+  const upgradeSpan = tracer.startSpan("GET /ws", { kind: "server" });
+  try {
+    const accountId = c.get("accountId");
+    const log = c.get("log").child({ component: "socket" });
+    log.info("Incoming upgrade");
+    upgradeSpan.setAttributes({ "request.id": c.get("requestId"), "account.id": accountId });
+    const instance = c.env.AGENT_CONTAINER.get(c.env.AGENT_CONTAINER.idFromName(accountId));
+
+    const containerStartTime = Date.now();
+    await tracer.trace(upgradeSpan, "container.start", async () =>
+      instance.startAndWaitForPorts({
+        ports: [8081],
+        startOptions: {
+          envVars: await accountEnvVars(c.env, instance, accountId),
+        },
+      })
+    );
+    log.info("Container ready", { durationMs: Date.now() - containerStartTime });
+
+    let allowedTools = await tracer.trace(upgradeSpan, "do.getAllowedTools", () => instance.getAllowedTools());
+    const containerWs = await tracer.trace(upgradeSpan, "container.connect", () => connectToContainer(instance));
+    const [client, server] = Object.values(new WebSocketPair());
+    server.accept();
+    upgradeSpan.end();
+    flushTraces(tracer, c.executionCtx, log);
+
+    // Prompts sent on this socket that haven't ended, by turnId. Follow-ups queue in the container
+    // behind the running turn, so several can be open at once; each holds its own turn slot.
+    const turns = new Map<string, SocketTurn>();
+
+    const endTurnTrace = (turn: SocketTurn, error?: string) => {
+      for (const span of turn.spans) {
+        if (error) span.recordError(error);
+        span.end();
+      }
+      turn.spans = [];
+      flushTraces(tracer, c.executionCtx, turn.log);
+    };
+
+    // The turn completed or failed: record it and free its slot
+    const endTurn = (turnId: string, error?: string) => {
+      const turn = turns.get(turnId);
+      if (!turn) return;
+      turns.delete(turnId);
+      turn.recorder.flush();
+      c.executionCtx.waitUntil(instance.endTurn(turnId));
+      endTurnTrace(turn, error);
+    };
+
+    let closed = false;
+    // Quota checks and transcript restores are async; chaining keeps frames in the order the client sent them
+    let forwarding: Promise<void> = Promise.resolve();
+    const quotaLimits = getQuotaLimits(c.env);
+
+    const closeBoth = (code = 1000, reason = "") => {
+      if (closed) return;
+      closed = true;
+      for (const turnId of [...turns.keys()]) {
+        endTurn(turnId, code === 1000 ? undefined : reason);
+      }
+      try { server.close(code, reason); } catch { /* already closed */ }
+      try { containerWs.close(code, reason); } catch { /* already closed */ }
+    };
+
+    // Client → container: start a new history turn for each prompt, forward everything
+    server.addEventListener("message", (event) => {
+      let message: ClientFrame;
+      try {
+        message = parseClientFrame(event.data as string);
+      } catch (e) {
+        const errorMessage = e instanceof Error ? e.message : String(e);
+        log.error("Rejected client frame", { error: errorMessage });
+        server.send(encodeFrame(errorFrame(e instanceof ProtocolError ? e.code : "invalid_frame", errorMessage)));
+        return;
+      }
+
+      const frame = message;
+      forwarding = forwarding
+        .then(() => forwardClientFrame(frame))
+        .catch((e) => {
+          const errorMessage = e instanceof Error ? e.message : String(e);
+          log.error("Failed to handle client frame", { error: errorMessage });
+          server.send(encodeFrame(errorFrame("internal_error", errorMessage)));
+        });
+    });
+
+    // Prompts are checked against the account's options policy and quota before reaching the container
+    const forwardClientFrame = async (message: ClientFrame) => {
+      if (message.type === "prompt" && message.prompt) {
+        // Filled in here when the client didn't pick one, so both sides log the same ID
+        const requestId = message.requestId || crypto.randomUUID();
+        // Errors about this prompt carry its turnId, so the client can tell them from other turns' frames
+        const sendPromptError = (frame: ErrorFrame) => server.send(encodeFrame({ ...frame, turnId: requestId }));
+        if (!REQUEST_ID_PATTERN.test(requestId)) {
+          sendPromptError(errorFrame("invalid_frame", "requestId must be 1-128 letters, digits or . _ : -"));
+          return;
+        }
+        const promptSpan = tracer.startSpan("ws.prompt", { kind: "server" }).setAttributes({
+          "request.id": requestId,
+          "account.id": accountId,
+          "session.id": message.sessionId ?? undefined,
+          "ws.upgrade_trace_id": upgradeSpan.traceId,
+        });
+        const promptLog = log.child({ requestId, sessionId: message.sessionId ?? undefined, traceId: promptSpan.traceId });
+        // Prompts that never reach the container still export their span
+        const rejectPrompt = (error: string) => {
+          promptSpan.recordError(error);
+          promptSpan.end();
+          flushTraces(tracer, c.executionCtx, promptLog);
+        };
+
+        let options: SessionConfig;
+        try {
+          options = resolveSessionConfig(c.env, message.profile, message.options);
+        } catch (e) {
+          if (!(e instanceof OptionsError)) throw e;
+          rejectPrompt(e.message);
+          sendPromptError(errorFrame("invalid_options", e.message));
+          return;
+        }
+        options = await tracer.trace(promptSpan, "do.getMcpServers", () => withAccountMcpServers(instance, options));
+
+        const ticket = crypto.randomUUID();
+        const decision = await tracer.trace<QuotaDecision>(promptSpan, "do.acquireTurn", () => instance.acquireTurn(quotaLimits, ticket));
+        if (!decision.allowed) {
+          promptLog.info("Quota rejected prompt", { code: decision.code, retryAfter: decision.retryAfter });
+          rejectPrompt(decision.error);
+          sendPromptError({ ...errorFrame(decision.code, decision.error), retryAfter: decision.retryAfter });
+          return;
+        }
+        if (!(await instance.beginTurn(requestId, message.prompt, message.sessionId ?? null, ticket))) {
+          c.executionCtx.waitUntil(instance.releaseTurn(ticket));
+          rejectPrompt("Duplicate requestId");
+          sendPromptError(errorFrame("duplicate_request", "requestId is already used by a running turn"));
+          return;
+        }
+        const turn: SocketTurn = {
+          recorder: createTurnRecorder(instance, c.executionCtx, message.prompt, promptLog, message.sessionId ?? undefined),
+          log: promptLog,
+          spans: [promptSpan],
+        };
+        turns.set(requestId, turn);
+        // Only the resolved options reach the container; the profile name stays on the Worker
+        message = {
+          type: "prompt",
+          prompt: message.prompt,
+          sessionId: message.sessionId,
+          requestId,
+          allowedTools,
+          options,
+          workspace: message.workspace,
+          attachments: message.attachments,
+          accountId,
+        };
+        if (message.sessionId) {
+          const sessionId = message.sessionId;
+          await tracer.trace(promptSpan, "history.restore", () => restoreSession(instance, sessionId, promptLog));
+        }
+        const turnSpan = promptSpan.startChild("turn", "client");
+        turn.spans = [turnSpan, promptSpan];
+        message.traceparent = turnSpan.traceparent();
+      }
+      // Resumes are checked against the account that started the turn, never the client's claim
+      if (message.type === "resume") {
+        message = { ...message, accountId };
+      }
+      if (message.type === "permission_response" && message.allow && message.remember && message.toolName) {
+        allowedTools = [...allowedTools, message.toolName];
+        c.executionCtx.waitUntil(instance.allowTool(message.toolName));
+      }
+
+      try {
+        containerWs.send(encodeFrame(message));
+      } catch (e) {
+        log.error("Failed to forward client frame", { frameType: message.type, error: e });
+      }
+    };
+
+    // Container → client: record and forward frames
+    containerWs.addEventListener("message", (event) => {
+      let message: ServerFrame;
+      try {
+        message = parseServerFrame(event.data as string);
+      } catch (e) {
+        const errorMessage = e instanceof Error ? e.message : String(e);
+        log.error("Rejected container frame", { error: errorMessage });
+        message = e instanceof ProtocolError ? errorFrame(e.code, errorMessage) : errorFrame("container_error", errorMessage);
+      }
+
+      // Frames of a turn carry its turnId; ones without (e.g. protocol errors) only get forwarded
+      const turnId = message.turnId;
+      const turn = turnId ? turns.get(turnId) : undefined;
+      const turnLog = turn?.log ?? log;
+      turnLog.debug("Relaying frame", { frameType: message.type });
+      if (turn && message.type === "session_created") {
+        turn.log = turn.log.child({ sessionId: message.claudeSessionId });
+        turn.spans[0]?.setAttributes({ "session.id": message.claudeSessionId });
+      }
+      if (message.type === "text_chunk") {
+        turn?.spans[0]?.addEvent("text_chunk");
+      }
+      if (message.type === "complete") {
+        turnLog.info("Turn completed", { cancelled: !!message.cancelled, usage: message.usage });
+      }
+
+      if (turn && message.type !== "error") {
+        turn.recorder.push(message);
+      }
+      if (turnId && (message.type === "error" || message.type === "complete")) {
+        endTurn(turnId, message.type === "error" ? message.error : undefined);
+      }
+      try {
+        server.send(encodeFrame(message));
+      } catch (e) {
+        turnLog.error("Failed to forward container frame", { frameType: message.type, error: e });
+      }
+    });
+
+    // Running turns stay on the container, with their turn slots, for the client to resume; they are
+    // recorded by the resumed stream instead
+    const detachClient = (code = 1000, reason = "") => {
+      for (const [turnId, turn] of turns) {
+        c.executionCtx.waitUntil(instance.detachTurn(turnId));
+        endTurnTrace(turn);
+      }
+      turns.clear();
+      closeBoth(code, reason);
+    };
+
+    server.addEventListener("close", () => {
+      log.info("Client disconnected");
+      detachClient();
+    });
+    containerWs.addEventListener("close", () => {
+      log.info("Container socket closed");
+      // Turns were still running: give the client a retryable error for each rather than just a dropped socket
+      if (!closed) {
+        for (const [turnId, turn] of turns) {
+          turn.log.warn("Container stopped mid-turn");
+          try {
+            server.send(encodeFrame({ ...containerStoppedError(), turnId }));
+          } catch {
+            // Client already gone
+          }
+        }
+      }
+      closeBoth(1011, "Container connection closed");
+    });
+    server.addEventListener("error", () => detachClient(1011, "Client socket error"));
+    containerWs.addEventListener("error", () => closeBoth(1011, "Container socket error"));
+
+    return new Response(null, { status: 101, webSocket: client });
+  } catch (error) {
+    upgradeSpan.recordError(error);
+    upgradeSpan.end();
+    flushTraces(tracer, c.executionCtx, c.get("log"));
+    if (error instanceof ApiKeyError) {
+      return c.json({ error: error.message }, 400);
+    }
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    c.get("log").error("Request failed", { component: "socket", error: errorMessage });
+    return c.json({ error: errorMessage }, 500);
+  }
+});
+
+export { ContainerRegistry } from "./registry";
+
 export default app;
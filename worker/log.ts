@@ -0,0 +1,37 @@
+import { createMiddleware } from "hono/factory";
+import type { AppEnv } from "./auth";
+import { configureLogging, createLogger, type Logger } from "../shared/log";
+
+export type LogVariables = {
+  // Correlation ID for this request; /query reuses it as the turn's requestId
+  requestId: string;
+  // Request-scoped logger carrying requestId (and accountId once authenticated)
+  log: Logger;
+};
+
+// For code that runs outside a request, e.g. Durable Object lifecycle hooks
+export const logger = createLogger({ component: "worker" });
+
+// Client-chosen request and turn IDs must match this to be used
+export const REQUEST_ID_PATTERN = /^[A-Za-z0-9._:-]{1,128}$/;
+
+// Assigns the request ID (an incoming X-Request-Id is kept so callers can correlate too),
+// sets up the request logger and logs one line per completed request
+export const requestLogging = createMiddleware<AppEnv>(async (c, next) => {
+  configureLogging(c.env.LOG_LEVEL, c.env.LOG_PROMPTS);
+
+  const incoming = c.req.header("X-Request-Id");
+  const requestId = incoming && REQUEST_ID_PATTERN.test(incoming) ? incoming : crypto.randomUUID();
+  c.set("requestId", requestId);
+  c.set("log", logger.child({ requestId }));
+
+  const startTime = Date.now();
+  await next();
+
+  c.get("log").info("Request completed", {
+    method: c.req.method,
+    path: c.req.path,
+    status: c.res.status,
+    durationMs: Date.now() - startTime,
+  });
+});
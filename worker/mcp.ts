@@ -0,0 +1,287 @@
+import type { McpServerDefinition } from "../shared/protocol";
+
+// Remote MCP servers registered per account. Stored in the account's Durable Object and passed to
+// the container with every turn; header values are write-only and never returned to clients.
+
+export interface StoredMcpServer extends McpServerDefinition {
+  createdAt: number;
+  updatedAt: number;
+}
+
+// What clients see: header names only
+export interface PublicMcpServer {
+  name: string;
+  type: McpServerDefinition["type"];
+  url: string;
+  headerNames: string[];
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface McpCheckResult {
+  ok: boolean;
+  tools: string[];
+  error?: string;
+  latencyMs: number;
+}
+
+export class McpServerError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "McpServerError";
+  }
+}
+
+export const MAX_MCP_SERVERS = 20;
+
+const NAME_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+const HEADER_NAME_PATTERN = /^[A-Za-z0-9!#$%&'*+.^_`|~-]+$/;
+const CHECK_TIMEOUT_MS = 10000;
+const MCP_PROTOCOL_VERSION = "2025-06-18";
+
+export function validateMcpServerName(name: string) {
+  if (!NAME_PATTERN.test(name)) {
+    throw new McpServerError("name must be 1-64 letters, digits, '-' or '_'");
+  }
+  return name;
+}
+
+// Build the stored definition from a PUT body. Omitting `headers` on an update keeps the stored
+// ones, so clients can change the URL without re-entering secrets; `headers: {}` clears them.
+export function buildMcpServer(raw: unknown, existing?: StoredMcpServer): StoredMcpServer {
+  if (typeof raw !== "object" || raw === null || Array.isArray(raw)) {
+    throw new McpServerError("Expected a server definition object");
+  }
+  const input = raw as Record<string, unknown>;
+
+  const type = input.type ?? existing?.type ?? "http";
+  if (type !== "http" && type !== "sse") {
+    throw new McpServerError("type must be \"http\" or \"sse\"");
+  }
+
+  const url = input.url ?? existing?.url;
+  let parsed: URL;
+  try {
+    parsed = new URL(String(url));
+  } catch {
+    throw new McpServerError("url must be an absolute URL");
+  }
+  if (parsed.protocol !== "https:" && parsed.protocol !== "http:") {
+    throw new McpServerError("url must use http or https");
+  }
+
+  let headers = existing?.headers;
+  if (input.headers !== undefined) {
+    const candidate = input.headers;
+    if (typeof candidate !== "object" || candidate === null || Array.isArray(candidate)) {
+      throw new McpServerError("headers must be an object of header names to values");
+    }
+    for (const [name, value] of Object.entries(candidate)) {
+      if (!HEADER_NAME_PATTERN.test(name) || typeof value !== "string") {
+        throw new McpServerError(`Invalid header: ${name}`);
+      }
+    }
+    headers = candidate as Record<string, string>;
+  }
+
+  const now = Date.now();
+  return {
+    type,
+    url: parsed.toString(),
+    ...(headers && Object.keys(headers).length > 0 ? { headers } : {}),
+    createdAt: existing?.createdAt ?? now,
+    updatedAt: now,
+  };
+}
+
+export const toPublicMcpServer = (name: string, server: StoredMcpServer): PublicMcpServer => ({
+  name,
+  type: server.type,
+  url: server.url,
+  headerNames: Object.keys(server.headers || {}),
+  createdAt: server.createdAt,
+  updatedAt: server.updatedAt,
+});
+
+// The account's servers in the shape sessions take, sorted by name so the container's session
+// fingerprint stays stable; undefined when there are none
+export function toSessionMcpServers(servers: Record<string, StoredMcpServer>) {
+  const names = Object.keys(servers).sort();
+  if (names.length === 0) return undefined;
+  return Object.fromEntries(
+    names.map((name): [string, McpServerDefinition] => {
+      const { type, url, headers } = servers[name];
+      return [name, headers ? { type, url, headers } : { type, url }];
+    })
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Health check: initialize a client session and list the server's tools
+// ---------------------------------------------------------------------------
+
+interface JsonRpcMessage {
+  jsonrpc: "2.0";
+  id?: number;
+  result?: Record<string, unknown>;
+  error?: { code: number; message: string };
+}
+
+const initializeRequest = {
+  jsonrpc: "2.0",
+  id: 1,
+  method: "initialize",
+  params: {
+    protocolVersion: MCP_PROTOCOL_VERSION,
+    capabilities: {},
+    clientInfo: { name: "claude-agent-worker", version: "1.0.0" },
+  },
+};
+const initializedNotification = { jsonrpc: "2.0", method: "notifications/initialized" };
+const listToolsRequest = { jsonrpc: "2.0", id: 2, method: "tools/list", params: {} };
+
+// Yields the `data` of each server-sent event, tagged with its event name
+async function* readEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<{ event: string; data: string }> {
+  const reader = body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = "";
+  try {
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done) return;
+      buffer += value;
+      const events = buffer.split(/\r?\n\r?\n/);
+      buffer = events.pop() || "";
+      for (const raw of events) {
+        let event = "message";
+        const data: string[] = [];
+        for (const line of raw.split(/\r?\n/)) {
+          if (line.startsWith("event:")) event = line.slice(6).trim();
+          else if (line.startsWith("data:")) data.push(line.slice(5).trimStart());
+        }
+        if (data.length > 0) yield { event, data: data.join("\n") };
+      }
+    }
+  } finally {
+    reader.cancel().catch(() => {});
+  }
+}
+
+const unwrap = (message: JsonRpcMessage, method: string) => {
+  if (message.error) {
+    throw new Error(`${method} failed: ${message.error.message}`);
+  }
+  return message.result || {};
+};
+
+const httpError = (res: Response) =>
+  new Error(res.status === 401 || res.status === 403 ? `Unauthorized (HTTP ${res.status})` : `HTTP ${res.status}`);
+
+// Streamable HTTP transport: each request is a POST answered with JSON or a short event stream
+async function checkStreamableHttp(server: McpServerDefinition, signal: AbortSignal) {
+  let sessionId: string | null = null;
+
+  const send = async (body: { method: string; id?: number }) => {
+    const res = await fetch(server.url, {
+      method: "POST",
+      headers: {
+        ...server.headers,
+        "Content-Type": "application/json",
+        Accept: "application/json, text/event-stream",
+        "MCP-Protocol-Version": MCP_PROTOCOL_VERSION,
+        ...(sessionId ? { "Mcp-Session-Id": sessionId } : {}),
+      },
+      body: JSON.stringify(body),
+      signal,
+    });
+    if (!res.ok) throw httpError(res);
+    sessionId = res.headers.get("Mcp-Session-Id") || sessionId;
+    if (body.id === undefined) {
+      await res.body?.cancel();
+      return {};
+    }
+
+    if (res.headers.get("Content-Type")?.includes("text/event-stream") && res.body) {
+      for await (const { data } of readEvents(res.body)) {
+        const message = JSON.parse(data) as JsonRpcMessage;
+        if (message.id === body.id) return unwrap(message, body.method);
+      }
+      throw new Error("Stream ended without a response");
+    }
+    return unwrap((await res.json()) as JsonRpcMessage, body.method);
+  };
+
+  await send(initializeRequest);
+  await send(initializedNotification);
+  return send(listToolsRequest);
+}
+
+// Legacy SSE transport: a GET stream announces an endpoint, responses arrive on the stream
+async function checkSse(server: McpServerDefinition, signal: AbortSignal) {
+  const res = await fetch(server.url, {
+    headers: { ...server.headers, Accept: "text/event-stream" },
+    signal,
+  });
+  if (!res.ok) throw httpError(res);
+  if (!res.body) throw new Error("Server returned no event stream");
+
+  const events = readEvents(res.body);
+  const next = async () => {
+    const { value, done } = await events.next();
+    if (done) throw new Error("Event stream closed");
+    return value;
+  };
+
+  let endpoint: string | null = null;
+  while (!endpoint) {
+    const { event, data } = await next();
+    if (event === "endpoint") endpoint = new URL(data, server.url).toString();
+  }
+
+  const post = async (body: object) => {
+    const posted = await fetch(endpoint, {
+      method: "POST",
+      headers: { ...server.headers, "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+      signal,
+    });
+    if (!posted.ok) throw httpError(posted);
+    await posted.body?.cancel();
+  };
+  const response = async (request: { id: number; method: string }) => {
+    while (true) {
+      const { event, data } = await next();
+      if (event !== "message") continue;
+      const message = JSON.parse(data) as JsonRpcMessage;
+      if (message.id === request.id) return unwrap(message, request.method);
+    }
+  };
+
+  try {
+    await post(initializeRequest);
+    await response(initializeRequest);
+    await post(initializedNotification);
+    await post(listToolsRequest);
+    return await response(listToolsRequest);
+  } finally {
+    await events.return(undefined);
+  }
+}
+
+// Connects the way the SDK would and reports connection or tool-listing failures
+export async function checkMcpServer(server: McpServerDefinition): Promise<McpCheckResult> {
+  const startTime = Date.now();
+  const signal = AbortSignal.timeout(CHECK_TIMEOUT_MS);
+  try {
+    const result = server.type === "sse" ? await checkSse(server, signal) : await checkStreamableHttp(server, signal);
+    const tools = Array.isArray(result.tools)
+      ? result.tools.map((tool: { name?: unknown }) => String(tool.name))
+      : [];
+    return { ok: true, tools, latencyMs: Date.now() - startTime };
+  } catch (error) {
+    const errorMessage =
+      error instanceof Error && error.name === "TimeoutError"
+        ? `No response within ${CHECK_TIMEOUT_MS / 1000}s`
+        : error instanceof Error ? error.message : String(error);
+    return { ok: false, tools: [], error: errorMessage, latencyMs: Date.now() - startTime };
+  }
+}
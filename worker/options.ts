@@ -0,0 +1,141 @@
+import type { SessionConfig } from "../shared/protocol";
+import { logger } from "./log";
+
+// Named option presets defined by the operator in AGENT_PROFILES; trusted as-is
+export interface AgentProfile extends SessionConfig {
+  description?: string;
+}
+
+export interface OptionsPolicy {
+  defaultModel: string;
+  models: string[];
+  // Tools a request may auto-allow; anything else still goes through permission prompts
+  tools: string[];
+  cwds: string[];
+  maxTurns: number;
+  profiles: Record<string, AgentProfile>;
+}
+
+export class OptionsError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "OptionsError";
+  }
+}
+
+const SYSTEM_PROMPT_MAX_LENGTH = 20000;
+const DEFAULT_MAX_TURNS = 50;
+const OPTION_KEYS = ["model", "systemPrompt", "allowedTools", "disallowedTools", "maxTurns", "cwd"];
+
+const list = (value: string | undefined) =>
+  (value || "").split(",").map((item) => item.trim()).filter(Boolean);
+
+function parseProfiles(raw: string | undefined): Record<string, AgentProfile> {
+  if (!raw) return {};
+  try {
+    const profiles = JSON.parse(raw);
+    if (typeof profiles !== "object" || profiles === null || Array.isArray(profiles)) {
+      throw new Error("expected an object of profiles");
+    }
+    return profiles;
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    logger.error("Ignoring invalid AGENT_PROFILES", { component: "options", error: errorMessage });
+    return {};
+  }
+}
+
+export function getOptionsPolicy(env: Env): OptionsPolicy {
+  const defaultModel = env.MODEL || "claude-haiku-4-5";
+  return {
+    defaultModel,
+    models: Array.from(new Set([defaultModel, ...list(env.QUERY_MODELS)])),
+    tools: list(env.QUERY_TOOLS),
+    cwds: list(env.QUERY_CWDS),
+    maxTurns: Number(env.QUERY_MAX_TURNS) || DEFAULT_MAX_TURNS,
+    profiles: parseProfiles(env.AGENT_PROFILES),
+  };
+}
+
+const toolList = (value: unknown, field: string) => {
+  if (!Array.isArray(value) || !value.every((tool) => typeof tool === "string" && tool.trim())) {
+    throw new OptionsError(`${field} must be an array of tool names`);
+  }
+  return value.map((tool: string) => tool.trim());
+};
+
+// Check client-supplied options against the policy; throws OptionsError
+function validateOptions(policy: OptionsPolicy, raw: unknown): SessionConfig {
+  if (raw === undefined || raw === null) return {};
+  if (typeof raw !== "object" || Array.isArray(raw)) {
+    throw new OptionsError("options must be an object");
+  }
+
+  const input = raw as Record<string, unknown>;
+  const unknownKey = Object.keys(input).find((key) => !OPTION_KEYS.includes(key));
+  if (unknownKey) {
+    throw new OptionsError(`Unsupported option: ${unknownKey}`);
+  }
+
+  const options: SessionConfig = {};
+  if (input.model !== undefined) {
+    if (typeof input.model !== "string" || !policy.models.includes(input.model)) {
+      throw new OptionsError(`Model not allowed: ${String(input.model)}`);
+    }
+    options.model = input.model;
+  }
+  if (input.systemPrompt !== undefined) {
+    if (typeof input.systemPrompt !== "string" || input.systemPrompt.length > SYSTEM_PROMPT_MAX_LENGTH) {
+      throw new OptionsError(`systemPrompt must be a string of at most ${SYSTEM_PROMPT_MAX_LENGTH} characters`);
+    }
+    options.systemPrompt = input.systemPrompt;
+  }
+  if (input.allowedTools !== undefined) {
+    options.allowedTools = toolList(input.allowedTools, "allowedTools");
+    const denied = options.allowedTools.find((tool) => !policy.tools.includes(tool));
+    if (denied) {
+      throw new OptionsError(`Tool cannot be auto-allowed: ${denied}`);
+    }
+  }
+  if (input.disallowedTools !== undefined) {
+    // Removing tools only narrows what the agent can do, so any name is accepted
+    options.disallowedTools = toolList(input.disallowedTools, "disallowedTools");
+  }
+  if (input.maxTurns !== undefined) {
+    const maxTurns = input.maxTurns;
+    if (typeof maxTurns !== "number" || !Number.isInteger(maxTurns) || maxTurns < 1 || maxTurns > policy.maxTurns) {
+      throw new OptionsError(`maxTurns must be an integer between 1 and ${policy.maxTurns}`);
+    }
+    options.maxTurns = maxTurns;
+  }
+  if (input.cwd !== undefined) {
+    if (typeof input.cwd !== "string" || !policy.cwds.includes(input.cwd)) {
+      throw new OptionsError(`Working directory not allowed: ${String(input.cwd)}`);
+    }
+    options.cwd = input.cwd;
+  }
+  return options;
+}
+
+// Resolve a request's profile and options into the session configuration sent to the container
+export function resolveSessionConfig(env: Env, profileName: unknown, rawOptions: unknown): SessionConfig {
+  const policy = getOptionsPolicy(env);
+
+  let profile: AgentProfile = {};
+  if (profileName !== undefined && profileName !== null && profileName !== "") {
+    if (typeof profileName !== "string" || !Object.hasOwn(policy.profiles, profileName)) {
+      throw new OptionsError(`Unknown profile: ${String(profileName)}`);
+    }
+    profile = policy.profiles[profileName];
+  }
+
+  const { model, systemPrompt, allowedTools, disallowedTools, maxTurns, cwd } = {
+    ...profile,
+    ...validateOptions(policy, rawOptions),
+  };
+  const config: SessionConfig = { model, systemPrompt, allowedTools, disallowedTools, maxTurns, cwd };
+  for (const key of Object.keys(config) as (keyof SessionConfig)[]) {
+    if (config[key] === undefined) delete config[key];
+  }
+  return config;
+}
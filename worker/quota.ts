@@ -0,0 +1,72 @@
+import { createMiddleware } from "hono/factory";
+import type { AppEnv } from "./auth";
+import type { QuotaErrorCode } from "../shared/protocol";
+
+// Per-account limits; 0 disables a limit
+export interface QuotaLimits {
+  requestsPerMinute: number;
+  concurrentTurns: number;
+  dailyTokens: number;
+  dailyCostUsd: number;
+}
+
+export type QuotaDecision =
+  | { allowed: true }
+  | { allowed: false; code: QuotaErrorCode; error: string; retryAfter: number };
+
+export type QuotaVariables = {
+  // Set by enforceQuota when a turn slot was taken; released when the turn ends
+  quotaTicket?: string;
+};
+
+export function getQuotaLimits(env: Env): QuotaLimits {
+  const limit = (value: string | undefined, fallback: number) => {
+    const parsed = Number(value);
+    return value !== undefined && value !== "" && Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+  };
+  return {
+    requestsPerMinute: limit(env.RATE_LIMIT_RPM, 20),
+    concurrentTurns: limit(env.MAX_CONCURRENT_TURNS, 2),
+    dailyTokens: limit(env.DAILY_TOKEN_BUDGET, 0),
+    dailyCostUsd: limit(env.DAILY_COST_BUDGET_USD, 0),
+  };
+}
+
+// JSON body (and Retry-After header) for a rejected request
+export const quotaResponse = (decision: Extract<QuotaDecision, { allowed: false }>) =>
+  Response.json(
+    { error: decision.error, code: decision.code, retryAfter: decision.retryAfter },
+    { status: 429, headers: { "Retry-After": String(decision.retryAfter) } }
+  );
+
+// Checks the account's limits before the route starts its container. With `acquire`, the
+// request also takes a turn slot (counted against the rate and concurrency limits); routes
+// that stream must release it via releaseTurn once the turn ends, other responses release here.
+export const enforceQuota = (options: { acquire: boolean }) =>
+  createMiddleware<AppEnv>(async (c, next) => {
+    const accountId = c.get("accountId");
+    const instance = c.env.AGENT_CONTAINER.get(c.env.AGENT_CONTAINER.idFromName(accountId));
+    const limits = getQuotaLimits(c.env);
+
+    const ticket = crypto.randomUUID();
+    const decision = options.acquire
+      ? await instance.acquireTurn(limits, ticket)
+      : await instance.checkQuota(limits);
+    if (!decision.allowed) {
+      c.get("log").info("Quota rejected request", { component: "quota", code: decision.code, retryAfter: decision.retryAfter });
+      return quotaResponse(decision);
+    }
+    if (!options.acquire) {
+      return next();
+    }
+
+    c.set("quotaTicket", ticket);
+    try {
+      await next();
+    } finally {
+      // Only a streaming 200 started a turn; every other response gives the slot back
+      if (c.res.status !== 200) {
+        c.executionCtx.waitUntil(instance.releaseTurn(ticket));
+      }
+    }
+  });
@@ -0,0 +1,75 @@
+import { DurableObject } from "cloudflare:workers";
+
+// Deployment-wide list of AgentContainer instances for the admin page. Each AgentContainer reports
+// itself from onStart/onStop; the admin routes correct entries whose container died unnoticed.
+
+export interface RegisteredContainer {
+  // Durable Object ID, used to reach the instance with idFromString
+  objectId: string;
+  accountId: string | null;
+  startedAt: number;
+  stoppedAt: number | null;
+}
+
+// Stopped containers stay listed this long so operators can see what just went away
+const STOPPED_RETENTION_MS = 24 * 60 * 60 * 1000;
+
+type RegistryRow = { object_id: string; account_id: string | null; started_at: number; stopped_at: number | null };
+
+const toRegisteredContainer = (row: RegistryRow): RegisteredContainer => ({
+  objectId: row.object_id,
+  accountId: row.account_id,
+  startedAt: row.started_at,
+  stoppedAt: row.stopped_at,
+});
+
+export class ContainerRegistry extends DurableObject<Env> {
+  constructor(ctx: DurableObjectState, env: Env) {
+    super(ctx, env);
+    ctx.storage.sql.exec(`
+      CREATE TABLE IF NOT EXISTS containers (
+        object_id TEXT PRIMARY KEY,
+        account_id TEXT,
+        started_at INTEGER NOT NULL,
+        stopped_at INTEGER
+      );
+    `);
+  }
+
+  async markStarted(objectId: string, accountId: string | null) {
+    const now = Date.now();
+    const sql = this.ctx.storage.sql;
+    sql.exec(
+      `INSERT INTO containers (object_id, account_id, started_at, stopped_at) VALUES (?, ?, ?, NULL)
+       ON CONFLICT (object_id) DO UPDATE SET
+         account_id = COALESCE(excluded.account_id, containers.account_id),
+         started_at = excluded.started_at,
+         stopped_at = NULL`,
+      objectId, accountId, now
+    );
+    sql.exec("DELETE FROM containers WHERE stopped_at IS NOT NULL AND stopped_at <= ?", now - STOPPED_RETENTION_MS);
+  }
+
+  async markStopped(objectId: string) {
+    this.ctx.storage.sql.exec(
+      "UPDATE containers SET stopped_at = ? WHERE object_id = ? AND stopped_at IS NULL",
+      Date.now(), objectId
+    );
+  }
+
+  // Running containers first, then recently stopped ones
+  async list(): Promise<RegisteredContainer[]> {
+    return this.ctx.storage.sql
+      .exec<RegistryRow>(
+        `SELECT object_id, account_id, started_at, stopped_at FROM containers
+         WHERE stopped_at IS NULL OR stopped_at > ?
+         ORDER BY stopped_at IS NOT NULL, started_at DESC`,
+        Date.now() - STOPPED_RETENTION_MS
+      )
+      .toArray()
+      .map(toRegisteredContainer);
+  }
+}
+
+// The registry is a single instance shared by the whole deployment
+export const getRegistry = (env: Env) => env.CONTAINER_REGISTRY.get(env.CONTAINER_REGISTRY.idFromName("global"));
@@ -0,0 +1,38 @@
+// Exponential backoff for reaching an account's container, which may still be starting or may
+// have been restarted under a running turn
+
+export interface Backoff {
+  attempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+// Starting the container and opening its socket
+export const CONTAINER_CONNECT_BACKOFF: Backoff = { attempts: 3, baseDelayMs: 500, maxDelayMs: 4000 };
+
+// Getting back to a running turn after the container socket dropped
+export const RECONNECT_BACKOFF: Backoff = { attempts: 4, baseDelayMs: 500, maxDelayMs: 8000 };
+
+// Delay before retry number `attempt` (1-based)
+export const backoffDelay = (attempt: number, backoff: Backoff) =>
+  Math.min(backoff.maxDelayMs, backoff.baseDelayMs * 2 ** (attempt - 1));
+
+export const sleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+// Runs `fn` until it succeeds or `backoff.attempts` tries have failed; rethrows the last error
+export async function withRetry<T>(
+  fn: () => Promise<T>,
+  backoff: Backoff,
+  onRetry?: (attempt: number, delayMs: number, error: unknown) => void
+): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await fn();
+    } catch (error) {
+      if (attempt >= backoff.attempts) throw error;
+      const delayMs = backoffDelay(attempt, backoff);
+      onRetry?.(attempt, delayMs, error);
+      await sleep(delayMs);
+    }
+  }
+}
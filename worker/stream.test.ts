@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vitest";
+import { parseServerFrame, type ServerFrame } from "../shared/protocol";
+import { formatEvent, formatFrame, negotiateStreamFormat } from "./stream";
+
+// Minimal EventSource-style parser: the `data:` lines of each event, joined with newlines
+const parseEvents = (body: string) =>
+  body
+    .split("\n\n")
+    .filter((block) => block.trim())
+    .map((block) => {
+      const fields: Record<string, string[]> = {};
+      for (const line of block.split("\n")) {
+        const [name, ...rest] = line.split(":");
+        (fields[name] ??= []).push(rest.join(":").replace(/^ /, ""));
+      }
+      return { id: fields.id?.[0], event: fields.event?.[0], data: fields.data?.join("\n") };
+    });
+
+describe("negotiateStreamFormat", () => {
+  it("defaults to NDJSON", () => {
+    expect(negotiateStreamFormat(undefined)).toBe("ndjson");
+    expect(negotiateStreamFormat("application/json, */*")).toBe("ndjson");
+  });
+
+  it("picks SSE when the client accepts text/event-stream", () => {
+    expect(negotiateStreamFormat("text/event-stream")).toBe("sse");
+    expect(negotiateStreamFormat("application/x-ndjson;q=0.5, text/event-stream;q=0.9")).toBe("sse");
+  });
+});
+
+describe("formatFrame", () => {
+  const frame: ServerFrame = { type: "text_chunk", content: "first line\nsecond line", turnId: "turn-1", seq: 7 };
+
+  it("writes one JSON line for NDJSON", () => {
+    const line = formatFrame(frame, "ndjson");
+    expect(line.endsWith("\n")).toBe(true);
+    expect(line.trimEnd().split("\n")).toHaveLength(1);
+    expect(parseServerFrame(line.trimEnd())).toEqual(frame);
+  });
+
+  it("names SSE events after the frame type and uses seq as the event ID", () => {
+    const [event] = parseEvents(formatFrame(frame, "sse"));
+    expect(event.id).toBe("7");
+    expect(event.event).toBe("text_chunk");
+    expect(parseServerFrame(event.data!)).toEqual(frame);
+  });
+
+  it("leaves out the event ID for frames without seq", () => {
+    const body = formatFrame({ type: "reconnecting", attempt: 1, delayMs: 500 }, "sse");
+    expect(body.startsWith("event: reconnecting\n")).toBe(true);
+    expect(parseEvents(body)[0].id).toBeUndefined();
+  });
+});
+
+describe("formatEvent", () => {
+  it("splits multi-line data into one data field per line", () => {
+    const body = formatEvent({ id: 3, event: "note", data: "one\ntwo\r\nthree" });
+    expect(body).toBe("id: 3\nevent: note\ndata: one\ndata: two\ndata: three\n\n");
+    expect(parseEvents(body)[0].data).toBe("one\ntwo\nthree");
+  });
+});
@@ -0,0 +1,31 @@
+import { encodeFrame, type ServerFrame } from "../shared/protocol";
+
+// Body formats for turn streams: NDJSON by default, Server-Sent Events for `Accept: text/event-stream`
+export type StreamFormat = "ndjson" | "sse";
+
+// SSE streams get a comment after this long without a frame, so proxies don't time out long tool runs
+export const SSE_HEARTBEAT_MS = 15000;
+
+export const negotiateStreamFormat = (accept: string | undefined): StreamFormat =>
+  accept?.split(",").some((type) => type.split(";")[0].trim() === "text/event-stream") ? "sse" : "ndjson";
+
+// One SSE event; each line of `data` gets its own `data:` field, which clients join back with newlines
+export function formatEvent(event: { id?: string | number; event?: string; data: string }) {
+  const id = event.id !== undefined ? `id: ${event.id}\n` : "";
+  const name = event.event ? `event: ${event.event}\n` : "";
+  const data = event.data.split(/\r\n|\r|\n/).map((line) => `data: ${line}\n`).join("");
+  return `${id}${name}${data}\n`;
+}
+
+// One frame as a JSON line, or as an SSE event named after its type with `seq` as the event ID
+export function formatFrame(frame: ServerFrame, format: StreamFormat) {
+  if (format === "ndjson") return encodeFrame(frame) + "\n";
+  return formatEvent({ id: frame.seq, event: frame.type, data: encodeFrame(frame) });
+}
+
+export const SSE_HEARTBEAT = ": heartbeat\n\n";
+
+export const streamHeaders = (format: StreamFormat, requestId: string): Record<string, string> =>
+  format === "sse"
+    ? { "Content-Type": "text/event-stream", "Cache-Control": "no-cache", "X-Request-Id": requestId }
+    : { "Content-Type": "application/x-ndjson", "Transfer-Encoding": "chunked", "X-Request-Id": requestId };
@@ -0,0 +1,22 @@
+import type { Logger } from "../shared/log";
+import { Tracer } from "../shared/trace";
+
+// OTLP tracing for /query and /ws (see shared/trace.ts). The same endpoint is passed to the
+// container, which continues each turn's trace from the prompt frame's traceparent.
+export const createTracer = (env: Env) =>
+  new Tracer({
+    serviceName: env.OTEL_SERVICE_NAME || "claude-agent-worker",
+    endpoint: env.OTEL_EXPORTER_OTLP_ENDPOINT,
+    headers: env.OTEL_EXPORTER_OTLP_HEADERS,
+  });
+
+// Export in the background; a failing collector is logged, never surfaced to the client
+export function flushTraces(
+  tracer: Tracer,
+  executionCtx: { waitUntil(promise: Promise<unknown>): void },
+  log: Logger
+) {
+  executionCtx.waitUntil(
+    tracer.flush().catch((error) => log.warn("Trace export failed", { component: "tracing", error }))
+  );
+}